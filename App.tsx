@@ -1,48 +1,40 @@
 import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
-import { Search, Copy, Check, Terminal, X, LayoutTemplate, LayoutGrid, List, Filter, ChevronLeft, ChevronRight, RefreshCw, Star, Trash2, Save, Plus, AlertTriangle, Clock, Ban, Wifi, WifiOff, RotateCcw, Settings, ExternalLink, FileText, LayoutDashboard, Github, FolderOpen, Database, Sparkles, Wrench, Trash, Play, HardDrive, BarChart2, Info, HelpCircle, Download, Upload, Cloud, FileJson, FileType } from 'lucide-react';
+import { Search, Copy, Check, Terminal, X, LayoutTemplate, LayoutGrid, List, Filter, ChevronLeft, RefreshCw, Star, Trash2, Save, Plus, AlertTriangle, Clock, Ban, Wifi, WifiOff, RotateCcw, Settings, ExternalLink, FileText, LayoutDashboard, Github, FolderOpen, Database, Sparkles, Wrench, Trash, Play, HardDrive, BarChart2, Info, HelpCircle, Download, Upload, Cloud, FileJson, FileType, Layers, ArrowUpToLine, ArrowDownToLine, Wand, Hash, Keyboard, FileCode, Apple } from 'lucide-react';
 import { EXPANSIONS_DATA, LETTER_STYLES } from './data';
-import { LanguageCategory, ShortcutData } from './types';
-
-// --- CONFIG: Backend Constraints ---
-const LIMITS = {
-  MAX_KEY_LEN: 80,
-  MAX_FIELD_LEN: 50000,
-  MAX_TAGS_LEN: 512,
-  MAX_LANGUAGE_LEN: 64,
-  MAX_APP_LEN: 128,
-  MAX_DESC_LEN: 2000,
-};
+import { LanguageCategory, ShortcutData, BackendShortcut, ShortcutPayload, ShortcutRef } from './types';
+import { runGas, GasArgs, GasResponseError, GasRejectedError, isTransportFailure, LauncherMethod, ActionMethod } from './gasClient';
+import { loadLocalShortcuts, putLocalShortcut, putLocalShortcuts, deleteLocalShortcut, createLocalId, loadCachedSnapshot, saveCachedSnapshot, loadFieldValues, saveFieldValues } from './localStore';
+import { mergeRanges, SearchHit, MatchRange } from './search';
+import { parseQuery, findQualifier, withQualifier, resolveLanguage, resolveStyle, QualifierName, TYPE_FILTERS, inferDescription } from './queryParser';
+import { createSearchClient, SearchClient } from './searchClient';
+import { EMPTY_STATS, IndexStats } from './searchIndex';
+import { VirtualGrid, VirtualGridHandle } from './VirtualGrid';
+import { StyleGenerator } from './StyleGenerator';
+import { StyleReview } from './StyleReview';
+import { NumberTools } from './NumberTools';
+import { expandTemplate, hasPlaceholders, resolvePlaceholders, placeholderLocale, usesClipboard } from './placeholders';
+import { FieldValues, parseTemplateFields, hasTemplateFields, validateFields, initialFieldValues, fillTemplateFields } from './templateFields';
+import { detectStyles, withDetectedStyle, styleKeys } from './styleDetector';
+import { ExportResult, downloadBlob } from './fileFormat';
+import { LIMITS } from './limits';
+import { ImportCandidate, ImportDiffRow, ImportStatus, ConflictResolution, CONFLICT_RESOLUTIONS, IMPORT_FIELD_LABELS, csvCandidates, jsonCandidates, parsedCandidates, diffImport, countByStatus, rowsToImport, toLanguageCategory, languageLabel, importFieldValue } from './importPreview';
+import { EXPANSION_OPTIONS, ExpansionOption, parseOptions, formatOptions } from './expansionOptions';
+import { exportGboard, parseGboardDictionary } from './gboard';
+import { exportEspanso, parseEspanso } from './espanso';
+import { exportAutoHotkey } from './autohotkey';
+import { exportApplePlist, parseApplePlist } from './applePlist';
+import { ImportFormat, LoadedImportFile, IMPORT_FILE_ACCEPT, loadImportFile, sniffFormat, formatFileSize } from './importFiles';
+import { mergeDelta, latestUpdatedAt, laterTimestamp, sheetRowId, adoptRowIds } from './sync';
+import { OutboxEntry, OutboxMethod, OUTBOX_LABELS, MAX_AUTO_ATTEMPTS, listOutbox, enqueueMutation, discardMutation, resetMutation, flushOutbox, applyOutbox } from './outbox';
+
+// How often queued offline changes are replayed while the app is open
+const OUTBOX_REPLAY_INTERVAL = 30000;
+
+// How often placeholder previews on the cards are re-resolved
+const PREVIEW_CLOCK_INTERVAL = 60000;
 
 // --- UTILITIES: GAS Bridge & Retry Logic ---
 
-/**
- * Promisifies a Google Apps Script call with timeout support.
- */
-const runGas = (funcName: string, args: any[] = [], timeout = 60000): Promise<any> => {
-  return new Promise((resolve, reject) => {
-    if (!window.google?.script) {
-      reject(new Error("GAS_UNAVAILABLE"));
-      return;
-    }
-
-    const timer = setTimeout(() => {
-      reject(new Error("TIMEOUT"));
-    }, timeout);
-
-    window.google.script.run
-      .withSuccessHandler((res) => {
-        clearTimeout(timer);
-        resolve(res);
-      })
-      .withFailureHandler((err) => {
-        clearTimeout(timer);
-        reject(err);
-      })
-      // @ts-ignore
-      [funcName](...args);
-  });
-};
-
 /**
  * Executes a function with exponential backoff retry logic.
  */
@@ -50,7 +42,8 @@ const withRetry = async <T,>(fn: () => Promise<T>, retries = 3, delay = 1000): P
   try {
     return await fn();
   } catch (err: any) {
-    if (retries === 0 || err.message === "GAS_UNAVAILABLE" || err.message === "CANCELLED") throw err;
+    // A malformed response or a rejection will not fix itself, so only transport failures are retried
+    if (retries === 0 || err.message === "GAS_UNAVAILABLE" || err.message === "CANCELLED" || !isTransportFailure(err)) throw err;
     console.warn(`Operation failed. Retrying in ${delay}ms... (${retries} attempts left)`);
     await new Promise(res => setTimeout(res, delay));
     return withRetry(fn, retries - 1, delay * 2);
@@ -58,6 +51,7 @@ const withRetry = async <T,>(fn: () => Promise<T>, retries = 3, delay = 1000): P
 };
 
 const getFriendlyError = (error: any) => {
+  if (error instanceof GasResponseError) return { title: 'Unexpected Server Response', desc: `${error.method} returned data the app could not read (${error.path}).` };
   const msg = error?.message || String(error);
   if (msg.includes('TIMEOUT')) return { title: 'Connection Timeout', desc: 'The server took too long to respond. Your network might be slow.' };
   if (msg.includes('NetworkError') || msg.includes('we were unable to connect')) return { title: 'Network Failure', desc: 'Unable to connect to Google. Please check your internet connection.' };
@@ -66,6 +60,23 @@ const getFriendlyError = (error: any) => {
   return { title: 'Sync Error', desc: msg };
 };
 
+/** The sheet's view of a row, as sent to upsertShortcut. */
+const toPayload = (item: ShortcutData): ShortcutPayload => ({
+  id: item.id,
+  key: item.k,
+  expansion: item.e,
+  language: languageLabel(item),
+  description: item.d,
+  tags: item.tags,
+  application: item.application,
+  mainCategory: item.mainCategory,
+  subcategory: item.subcategory,
+  fontStyle: item.style, // Map style back to fontStyle
+  platform: item.platform,
+  usageFrequency: item.usageFrequency,
+  options: item.options
+});
+
 // --- COMPONENTS ---
 
 const Toast = ({ message, type, onClose }: { message: string, type: 'success' | 'error' | 'info', onClose: () => void }) => {
@@ -208,18 +219,77 @@ const LoadingOverlay = ({
   );
 };
 
+const SyncStatusBadge = ({
+  status,
+  progress,
+  total,
+  cachedAt,
+  error,
+  onRetry,
+  onCancel
+}: {
+  status: 'idle' | 'syncing' | 'error';
+  progress: number;
+  total: number;
+  cachedAt: string | null;
+  error?: { title: string, desc: string } | null;
+  onRetry: () => void;
+  onCancel: () => void;
+}) => {
+  if (status === 'syncing') {
+    return (
+      <span className="text-sm text-purple-200/80 flex items-center gap-2">
+        <RefreshCw size={14} className="animate-spin text-purple-400" />
+        Updating{total > 0 ? ` ${Math.min(100, Math.round((progress / total) * 100))}%` : '...'}
+        <button onClick={onCancel} className="text-slate-500 hover:text-white" title="Cancel background sync"><X size={12} /></button>
+      </span>
+    );
+  }
+
+  if (status === 'error') {
+    return (
+      <button onClick={onRetry} className="text-sm text-red-400 hover:text-red-300 flex items-center gap-1" title={error?.desc}>
+        <AlertTriangle size={14} /> {error?.title || 'Sync failed'} · Retry
+      </button>
+    );
+  }
+
+  return (
+    <span className="text-sm text-slate-400 flex items-center gap-1" title="Last successful sync cached on this device">
+      <Check size={14} className="text-emerald-500" /> Synced {cachedAt ? new Date(cachedAt).toLocaleTimeString() : ''}
+    </span>
+  );
+};
+
+/** Wraps the matched spans of a search hit in <mark>. */
+const Highlight = ({ text, ranges }: { text: string; ranges?: MatchRange[] }) => {
+  if (!ranges || ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  mergeRanges(ranges).forEach(([start, end]) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={start} className="bg-yellow-400/30 text-inherit rounded-sm">{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
 const EditModal = ({ 
   isOpen, 
   onClose, 
   onSave, 
   initialData, 
-  isDeleting 
+  isDeleting,
+  isKeyTaken
 }: { 
   isOpen: boolean; 
   onClose: () => void; 
   onSave: (data: Partial<ShortcutData>) => void; 
   initialData: Partial<ShortcutData> | null;
-  isDeleting?: (key: string) => void; 
+  isDeleting?: (id: string) => void; 
+  isKeyTaken?: (key: string, exceptId: string) => boolean; 
 }) => {
   const [formData, setFormData] = useState<Partial<ShortcutData>>({ k: '', e: '', s: 'all', d: '', tags: '' });
   const [errors, setErrors] = useState<{k?: string, e?: string}>({});
@@ -231,10 +301,14 @@ const EditModal = ({
     }
   }, [isOpen, initialData]);
 
+  const isRenaming = !!initialData?.id && !!initialData.k && formData.k !== initialData.k;
+
   const validate = () => {
     const newErrors: {k?: string, e?: string} = {};
     if (!formData.k) newErrors.k = 'Trigger is required';
     if (formData.k && formData.k.length > LIMITS.MAX_KEY_LEN) newErrors.k = `Max ${LIMITS.MAX_KEY_LEN} chars`;
+    // New shortcuts may share a trigger (variants), but a rename must land on a free one
+    if (formData.k && isRenaming && isKeyTaken?.(formData.k, initialData!.id!)) newErrors.k = 'Trigger already in use';
     if (!formData.e) newErrors.e = 'Content is required';
     if (formData.e && formData.e.length > LIMITS.MAX_FIELD_LEN) newErrors.e = 'Content too long';
     
@@ -254,7 +328,7 @@ const EditModal = ({
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
       <div className="bg-slate-800 w-full max-w-lg rounded-2xl shadow-2xl border border-white/10 overflow-hidden transform transition-all scale-100" onClick={e => e.stopPropagation()}>
         <div className="p-6 border-b border-white/10 flex justify-between items-center bg-slate-800/50">
-          <h3 className="text-xl font-bold text-white">{initialData?.k ? 'Edit Shortcut' : 'New Shortcut'}</h3>
+          <h3 className="text-xl font-bold text-white">{initialData?.id ? 'Edit Shortcut' : 'New Shortcut'}</h3>
           <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors"><X size={20} /></button>
         </div>
         
@@ -270,8 +344,10 @@ const EditModal = ({
               onChange={e => setFormData(prev => ({ ...prev, k: e.target.value }))}
               className={`w-full bg-slate-900 border ${errors.k ? 'border-red-500' : 'border-white/10'} rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-purple-500 outline-none font-mono transition-colors`}
               placeholder="e.g. omw"
-              readOnly={!!initialData?.k}
             />
+            {isRenaming && (
+              <p className="mt-1 text-xs text-amber-400">Renaming from <span className="font-mono">{initialData!.k}</span> - favorite and metadata are kept.</p>
+            )}
           </div>
           
           <div>
@@ -285,6 +361,18 @@ const EditModal = ({
               className={`w-full bg-slate-900 border ${errors.e ? 'border-red-500' : 'border-white/10'} rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-purple-500 outline-none min-h-[100px] transition-colors`}
               placeholder="Text to expand..."
             />
+            {hasPlaceholders(formData.e || '') ? (
+              <p className="mt-1 text-xs text-emerald-300/80 break-all whitespace-pre-wrap">
+                Copies as: {resolvePlaceholders(formData.e || '', { now: new Date(), locale: placeholderLocale(formData.s || 'all') })}
+              </p>
+            ) : (
+              <p className="mt-1 text-xs text-slate-500">Placeholders: {'{date}'} {'{date:DD/MM/YYYY}'} {'{time}'} {'{year}'} {'{month}'} {'{clipboard}'} - add |keycap, |circled, |double or |ordinal to restyle digits</p>
+            )}
+            {hasTemplateFields(formData.e || '') && (
+              <p className="mt-1 text-xs text-purple-300/70">
+                Asks for {parseTemplateFields(formData.e || '').map(field => field.name).join(', ')} when copied.
+              </p>
+            )}
           </div>
 
           <div className="grid grid-cols-2 gap-4">
@@ -312,12 +400,47 @@ const EditModal = ({
               />
             </div>
           </div>
+
+          <div>
+            <label className="block text-xs font-medium text-slate-400 uppercase mb-1">Font Style</label>
+            <select 
+              value={formData.style || ''}
+              onChange={e => setFormData(prev => ({ ...prev, style: e.target.value || undefined }))}
+              className="w-full bg-slate-900 border border-white/10 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-purple-500 outline-none"
+            >
+              <option value="">None</option>
+              {Object.entries(LETTER_STYLES).map(([key, label]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-slate-400 uppercase mb-1">Desktop Expanders (espanso, AutoHotkey)</label>
+            <div className="flex gap-6">
+              {(Object.keys(EXPANSION_OPTIONS) as ExpansionOption[]).map(option => (
+                <label key={option} title={EXPANSION_OPTIONS[option].hint} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={parseOptions(formData.options).includes(option)}
+                    onChange={e => setFormData(prev => {
+                      const current = parseOptions(prev.options).filter(o => o !== option);
+                      // '' rather than undefined, so clearing the last option reaches the sheet
+                      return { ...prev, options: formatOptions(e.target.checked ? [...current, option] : current) ?? '' };
+                    })}
+                    className="accent-purple-500"
+                  />
+                  {EXPANSION_OPTIONS[option].label}
+                </label>
+              ))}
+            </div>
+          </div>
         </div>
 
         <div className="p-6 border-t border-white/10 bg-slate-800/50 flex justify-between">
-          {initialData?.k && isDeleting ? (
+          {initialData?.id && isDeleting ? (
             <button 
-              onClick={() => isDeleting(initialData.k!)}
+              onClick={() => isDeleting(initialData.id!)}
               className="px-4 py-2 bg-red-500/10 text-red-400 hover:bg-red-500 hover:text-white rounded-lg transition-colors flex items-center gap-2 font-medium"
             >
               <Trash2 size={18} /> Delete
@@ -338,23 +461,203 @@ const EditModal = ({
   );
 };
 
+/** Rows shown in the import preview; the import itself takes every row that passes. */
+const IMPORT_PREVIEW_ROWS = 200;
+
+/** Every format is parsed in the browser and compared with the loaded rows before anything is saved. */
+const IMPORT_FORMATS: Record<ImportFormat, {
+  label: string;
+  icon: React.ReactNode;
+  candidates: (text: string) => ImportCandidate[];
+  placeholder: string;
+  hint: string;
+}> = {
+  csv: {
+    label: 'CSV',
+    icon: <FileType size={16} />,
+    candidates: text => csvCandidates(text),
+    placeholder: 'Key,Expansion,Application,Description,Language,Tags',
+    hint: 'Format: Key, Expansion, [App], [Desc], [Lang], [Tags] - or any order with a header row. Quote cells that hold commas or line breaks.',
+  },
+  tsv: {
+    label: 'TSV',
+    icon: <FileType size={16} />,
+    candidates: text => csvCandidates(text, '\t'),
+    placeholder: 'Key\tExpansion\tApplication\tDescription\tLanguage\tTags',
+    hint: 'Tab-separated, as copied from a spreadsheet: the same columns as CSV, with or without a header row.',
+  },
+  json: {
+    label: 'JSON',
+    icon: <FileJson size={16} />,
+    candidates: jsonCandidates,
+    placeholder: '[{"key":"example","expansion":"content"}]',
+    hint: 'Format: Array of objects with "key" and "expansion" properties.',
+  },
+  gboard: {
+    label: 'Gboard',
+    icon: <Keyboard size={16} />,
+    candidates: text => parsedCandidates(parseGboardDictionary(text)),
+    placeholder: '# Gboard Dictionary version:1\nbe right back\tbrb\ten-US',
+    hint: 'Gboard › Settings › Dictionary › Personal dictionary › Export (the .zip can be dropped as is). en-* locales become English, es-* Spanish, the rest All Languages.',
+  },
+  espanso: {
+    label: 'espanso',
+    icon: <FileCode size={16} />,
+    candidates: text => parsedCandidates(parseEspanso(text)),
+    placeholder: 'matches:\n  - trigger: ":hello"\n    replace: "Hello world"',
+    hint: 'Date and clipboard variables become placeholders, forms become fill-in fields; other variables are kept as {{name}} fields.',
+  },
+  apple: {
+    label: 'Apple',
+    icon: <Apple size={16} />,
+    candidates: text => parsedCandidates(parseApplePlist(text)),
+    placeholder: '<plist version="1.0"><array><dict><key>phrase</key><string>be right back</string><key>shortcut</key><string>brb</string></dict></array></plist>',
+    hint: 'System Settings › Keyboard › Text Replacements: select the entries and drag them to the desktop to get Text Substitutions.plist.',
+  },
+};
+
+const IMPORT_STATUS_STYLES: Record<ImportStatus, { label: string; className: string }> = {
+  insert: { label: 'New', className: 'bg-emerald-500/15 text-emerald-300' },
+  update: { label: 'Update', className: 'bg-blue-500/15 text-blue-300' },
+  unchanged: { label: 'Same', className: 'bg-white/5 text-slate-400' },
+  skipped: { label: 'Skip', className: 'bg-amber-500/15 text-amber-300' },
+  error: { label: 'Error', className: 'bg-red-500/15 text-red-300' },
+};
+
+/** What a preview row will do, in one line. */
+const ImportDiffDetail = ({ row }: { row: ImportDiffRow }) => {
+  if (row.status === 'error') return <span className="text-red-300">{row.errors.join(' · ')}</span>;
+  const repeats = row.repeats && <span className="text-amber-400">Repeats {row.repeats.toLowerCase()} · </span>;
+  if (row.status === 'insert') return <span className="text-white">{repeats}{row.result!.e}</span>;
+  if (row.status === 'unchanged') return <span className="text-slate-500">{repeats}Already up to date</span>;
+  if (row.status === 'skipped' && row.changes.length === 0) return <span className="text-slate-500">{repeats}Skipped with the row it repeats</span>;
+  if (row.conflict === 'variant') return <span className="text-white">{repeats}Added next to the existing row · {row.result!.e}</span>;
+  const before = row.existing || {};
+  return (
+    <span className="text-slate-300">
+      {repeats}
+      {row.changes.map((field, idx) => (
+        <span key={field}>
+          {idx > 0 && ' · '}
+          <span className="text-slate-500">{IMPORT_FIELD_LABELS[field]}: </span>
+          {row.existing && field !== 'e' && <><span className="line-through text-slate-500">{importFieldValue(before, field) || '∅'}</span> → </>}
+          {importFieldValue(row.result!, field) || '∅'}
+        </span>
+      ))}
+    </span>
+  );
+};
+
 const ImportModal = ({
   isOpen,
   onClose,
+  existing,
   onImport
 }: {
   isOpen: boolean;
   onClose: () => void;
-  onImport: (mode: 'csv' | 'json', text: string) => void;
+  existing: ShortcutData[];
+  onImport: (rows: ShortcutData[]) => void;
 }) => {
   const [text, setText] = useState('');
-  const [mode, setMode] = useState<'csv' | 'json'>('csv');
+  const [mode, setMode] = useState<ImportFormat>('csv');
+  const [files, setFiles] = useState<LoadedImportFile[]>([]);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const [reading, setReading] = useState<{ name: string; loaded: number; total: number } | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<ImportStatus | 'conflict' | 'all'>('all');
+  const [batchResolution, setBatchResolution] = useState<ConflictResolution>('overwrite');
+  const [rowResolutions, setRowResolutions] = useState<Record<string, ConflictResolution>>({});
+
+  const format = IMPORT_FORMATS[mode];
+  // Loaded files replace the text area; with several, locations number and name the file they came from
+  const parsed = useMemo((): { candidates: ImportCandidate[] | null; errors: string[] } => {
+    const sources = files.length > 0
+      ? files.map(file => ({ name: file.name, format: file.format, text: file.text }))
+      : text.trim() ? [{ name: '', format: mode, text }] : [];
+    if (sources.length === 0) return { candidates: null, errors: [] };
+    const candidates: ImportCandidate[] = [];
+    const errors: string[] = [];
+    sources.forEach((source, idx) => {
+      try {
+        IMPORT_FORMATS[source.format].candidates(source.text).forEach(candidate =>
+          candidates.push(files.length > 1 ? { ...candidate, location: `#${idx + 1} ${source.name} · ${candidate.location}` } : candidate));
+      } catch (err: any) {
+        errors.push(`${source.name ? `${source.name}: ` : ''}${err.message || 'Could not read this text'}`);
+      }
+    });
+    return { candidates, errors };
+  }, [files, mode, text]);
+  const diff = useMemo(() => parsed.candidates
+    ? diffImport(parsed.candidates, existing, location => rowResolutions[location] || batchResolution)
+    : null, [parsed, existing, rowResolutions, batchResolution]);
+  const counts = useMemo(() => diff ? countByStatus(diff) : null, [diff]);
+  const conflicts = useMemo(() => diff ? diff.filter(row => row.conflict).length : 0, [diff]);
+  const toImport = useMemo(() => diff ? rowsToImport(diff) : [], [diff]);
+  const visible = useMemo(() => diff
+    ? diff.filter(row => statusFilter === 'all' || (statusFilter === 'conflict' ? !!row.conflict : row.status === statusFilter))
+    : [], [diff, statusFilter]);
+
+  /** New rows mean choices made for the old ones no longer apply. */
+  const resetPreview = () => {
+    setRowResolutions({});
+    setStatusFilter('all');
+  };
+
+  const updateText = (value: string) => {
+    setText(value);
+    resetPreview();
+  };
+
+  /** Pasting into an empty box picks the format, so CSV vs JSON need not be chosen first. */
+  const handlePaste = (pasted: string) => {
+    if (!text.trim() && pasted.trim()) setMode(sniffFormat(pasted));
+  };
+
+  /** One choice for every conflict, replacing any made row by row. */
+  const resolveAll = (resolution: ConflictResolution) => {
+    setBatchResolution(resolution);
+    setRowResolutions({});
+  };
+
+  /** Reads, unzips and decodes picked or dropped files one at a time, reporting progress across all of them. */
+  const handleFiles = async (list: FileList | null) => {
+    const picked = Array.from(list || []);
+    if (picked.length === 0 || reading) return;
+    const total = picked.reduce((sum, file) => sum + file.size, 0);
+    const loaded: LoadedImportFile[] = [];
+    const errors: string[] = [];
+    let done = 0;
+    for (const file of picked) {
+      setReading({ name: file.name, loaded: done, total });
+      try {
+        loaded.push(await loadImportFile(file, bytes => setReading({ name: file.name, loaded: done + bytes, total })));
+      } catch (err: any) {
+        errors.push(`${file.name}: ${err.message || 'Could not read the file'}`);
+      }
+      done += file.size;
+    }
+    setReading(null);
+    setFiles(prev => [...prev, ...loaded]);
+    setFileErrors(errors);
+    resetPreview();
+  };
+
+  const setFileFormat = (index: number, value: ImportFormat) => {
+    setFiles(prev => prev.map((file, idx) => idx === index ? { ...file, format: value } : file));
+    resetPreview();
+  };
+
+  const removeFile = (index: number) => {
+    setFiles(prev => prev.filter((_, idx) => idx !== index));
+    resetPreview();
+  };
 
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
-      <div className="bg-slate-800 w-full max-w-2xl rounded-2xl shadow-2xl border border-white/10 overflow-hidden transform transition-all scale-100" onClick={e => e.stopPropagation()}>
+      <div className="bg-slate-800 w-full max-w-3xl max-h-[90vh] rounded-2xl shadow-2xl border border-white/10 overflow-hidden transform transition-all scale-100 flex flex-col" onClick={e => e.stopPropagation()}>
         <div className="p-6 border-b border-white/10 flex justify-between items-center bg-slate-800/50">
           <h3 className="text-xl font-bold text-white flex items-center gap-2">
             <Upload size={20} className="text-blue-400" /> Bulk Import
@@ -362,51 +665,343 @@ const ImportModal = ({
           <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors"><X size={20} /></button>
         </div>
         
-        <div className="p-6 space-y-4">
-          <div className="flex gap-4 mb-4">
-            <button
-              onClick={() => setMode('csv')}
-              className={`flex-1 py-2 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors ${mode === 'csv' ? 'bg-purple-500 text-white' : 'bg-white/5 text-slate-400 hover:bg-white/10'}`}
-            >
-              <FileType size={16} /> CSV
-            </button>
-            <button
-              onClick={() => setMode('json')}
-              className={`flex-1 py-2 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors ${mode === 'json' ? 'bg-purple-500 text-white' : 'bg-white/5 text-slate-400 hover:bg-white/10'}`}
-            >
-              <FileJson size={16} /> JSON
-            </button>
+        <div className="p-6 space-y-4 overflow-y-auto custom-scrollbar">
+          <div
+            onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={e => { e.preventDefault(); setIsDragging(false); handleFiles(e.dataTransfer.files); }}
+            className={`rounded-xl border-2 border-dashed px-4 py-5 text-center transition-colors ${isDragging ? 'border-purple-400 bg-purple-500/10' : 'border-white/10 bg-white/[0.02]'}`}
+          >
+            <Upload size={22} className="mx-auto mb-2 text-slate-500" />
+            <p className="text-sm text-slate-300">
+              Drop files here or{' '}
+              <label className="text-purple-300 hover:text-purple-200 underline cursor-pointer">
+                choose files
+                <input
+                  type="file"
+                  multiple
+                  accept={IMPORT_FILE_ACCEPT}
+                  onChange={e => { handleFiles(e.target.files); e.target.value = ''; }}
+                  className="hidden"
+                />
+              </label>
+            </p>
+            <p className="text-xs text-slate-500 mt-1">CSV, TSV, JSON, Gboard (.zip or .txt), espanso (.yml) or Apple (.plist) - the format and encoding are detected</p>
+            {reading && (
+              <div className="mt-3 text-left">
+                <div className="flex justify-between text-xs text-slate-400 mb-1">
+                  <span className="truncate">Reading {reading.name}…</span>
+                  <span>{formatFileSize(reading.loaded)} / {formatFileSize(reading.total)}</span>
+                </div>
+                <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+                  <div className="h-full bg-purple-500 transition-all" style={{ width: `${reading.total ? Math.round(reading.loaded / reading.total * 100) : 100}%` }} />
+                </div>
+              </div>
+            )}
           </div>
+          {fileErrors.map(error => <p key={error} className="text-xs text-red-400">{error}</p>)}
+
+          {files.length > 0 ? (
+            <div className="rounded-lg border border-white/10 divide-y divide-white/5">
+              {files.map((file, idx) => (
+                <div key={`${file.name}-${idx}`} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  <FileText size={14} className="text-slate-500 shrink-0" />
+                  <span className="text-white truncate flex-1" title={file.name}>{file.name}</span>
+                  <span className="text-[10px] text-slate-500 shrink-0">{formatFileSize(file.size)} · {file.encoding}</span>
+                  <select
+                    value={file.format}
+                    onChange={e => setFileFormat(idx, e.target.value as ImportFormat)}
+                    title="Detected format - change it if the guess is wrong"
+                    className="bg-slate-900 border border-white/10 rounded-md px-1.5 py-0.5 text-xs text-slate-200 outline-none focus:ring-1 focus:ring-purple-500 shrink-0"
+                  >
+                    {(Object.keys(IMPORT_FORMATS) as ImportFormat[]).map(key => (
+                      <option key={key} value={key}>{IMPORT_FORMATS[key].label}</option>
+                    ))}
+                  </select>
+                  <button onClick={() => removeFile(idx)} title="Remove file" className="text-slate-500 hover:text-white shrink-0"><X size={14} /></button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <>
+              <div className="flex gap-2">
+                {(Object.keys(IMPORT_FORMATS) as ImportFormat[]).map(key => (
+                  <button
+                    key={key}
+                    onClick={() => { setMode(key); resetPreview(); }}
+                    className={`flex-1 py-2 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors ${mode === key ? 'bg-purple-500 text-white' : 'bg-white/5 text-slate-400 hover:bg-white/10'}`}
+                  >
+                    {IMPORT_FORMATS[key].icon} {IMPORT_FORMATS[key].label}
+                  </button>
+                ))}
+              </div>
 
-          <div>
-            <label className="block text-xs font-medium text-slate-400 uppercase mb-1">
-              Paste Data ({mode.toUpperCase()})
-            </label>
-            <textarea 
-              value={text} 
-              onChange={e => setText(e.target.value)}
-              className="w-full bg-slate-900 border border-white/10 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-purple-500 outline-none min-h-[200px] font-mono text-sm custom-scrollbar"
-              placeholder={mode === 'csv' ? "Key,Expansion,Application,Description,Language,Tags" : '[{"key":"example","expansion":"content"}]'}
-            />
-          </div>
-          
-          <p className="text-xs text-slate-500">
-            {mode === 'csv' 
-              ? 'Format: Key, Expansion, [App], [Desc], [Lang], [Tags]' 
-              : 'Format: Array of objects with "key" and "expansion" properties.'}
-          </p>
+              <div>
+                <label className="block text-xs font-medium text-slate-400 uppercase mb-1">Or Paste Data ({format.label})</label>
+                <textarea 
+                  value={text} 
+                  onChange={e => updateText(e.target.value)}
+                  onPaste={e => handlePaste(e.clipboardData.getData('text'))}
+                  className="w-full bg-slate-900 border border-white/10 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-purple-500 outline-none min-h-[200px] font-mono text-sm custom-scrollbar"
+                  placeholder={format.placeholder}
+                />
+              </div>
+              
+              <p className="text-xs text-slate-500">{format.hint}</p>
+            </>
+          )}
+          {parsed.errors.map(error => <p key={error} className="text-xs text-red-400">{error}</p>)}
+
+          {diff && counts && diff.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="font-bold text-slate-400 uppercase tracking-wider mr-1">Preview</span>
+                {(['all', 'conflict', 'insert', 'update', 'unchanged', 'skipped', 'error'] as const).map(status => {
+                  const count = status === 'all' ? diff.length : status === 'conflict' ? conflicts : counts[status];
+                  return (
+                    <button
+                      key={status}
+                      onClick={() => setStatusFilter(status)}
+                      disabled={status !== 'all' && count === 0}
+                      className={`px-2 py-0.5 rounded-full border transition-colors disabled:opacity-40 ${statusFilter === status ? 'border-purple-400 text-white' : 'border-white/10 text-slate-400 hover:text-white'}`}
+                    >
+                      {status === 'all' ? 'All' : status === 'conflict' ? 'Conflicts' : IMPORT_STATUS_STYLES[status].label} {count.toLocaleString()}
+                    </button>
+                  );
+                })}
+              </div>
+              {conflicts > 0 && (
+                <div className="flex flex-wrap items-center gap-2 text-xs bg-amber-500/5 border border-amber-500/20 rounded-lg px-3 py-2">
+                  <AlertTriangle size={14} className="text-amber-400 shrink-0" />
+                  <span className="text-amber-200 mr-1">
+                    {conflicts.toLocaleString()} trigger{conflicts === 1 ? ' already exists' : 's already exist'}. For all of them:
+                  </span>
+                  {(Object.keys(CONFLICT_RESOLUTIONS) as ConflictResolution[]).map(resolution => (
+                    <button
+                      key={resolution}
+                      onClick={() => resolveAll(resolution)}
+                      title={CONFLICT_RESOLUTIONS[resolution].hint}
+                      className={`px-2 py-0.5 rounded-md transition-colors ${batchResolution === resolution && Object.keys(rowResolutions).length === 0 ? 'bg-amber-500 text-slate-900 font-bold' : 'bg-white/5 text-slate-300 hover:bg-white/10'}`}
+                    >
+                      {CONFLICT_RESOLUTIONS[resolution].label}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="max-h-64 overflow-y-auto custom-scrollbar rounded-lg border border-white/10 divide-y divide-white/5">
+                {visible.slice(0, IMPORT_PREVIEW_ROWS).map(row => (
+                  <div key={row.location} className="flex items-center gap-3 px-3 py-1.5 text-sm">
+                    <span className={`text-[10px] uppercase tracking-wide font-bold px-1.5 py-0.5 rounded w-14 text-center shrink-0 ${IMPORT_STATUS_STYLES[row.status].className}`}>
+                      {IMPORT_STATUS_STYLES[row.status].label}
+                    </span>
+                    <span className="text-[10px] font-mono text-slate-500 w-20 truncate shrink-0" title={row.location}>{row.location}</span>
+                    <span className="font-mono text-purple-200 w-32 truncate shrink-0">{row.incoming.k || row.source || '∅'}</span>
+                    <span className="truncate flex-1 text-xs"><ImportDiffDetail row={row} /></span>
+                    {row.conflict && (
+                      <select
+                        value={row.conflict}
+                        onChange={e => setRowResolutions(prev => ({ ...prev, [row.location]: e.target.value as ConflictResolution }))}
+                        title={CONFLICT_RESOLUTIONS[row.conflict].hint}
+                        className="bg-slate-900 border border-white/10 rounded-md px-1.5 py-0.5 text-xs text-slate-200 outline-none focus:ring-1 focus:ring-purple-500 shrink-0"
+                      >
+                        {(Object.keys(CONFLICT_RESOLUTIONS) as ConflictResolution[]).map(resolution => (
+                          <option key={resolution} value={resolution}>{CONFLICT_RESOLUTIONS[resolution].label}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                ))}
+                {visible.length > IMPORT_PREVIEW_ROWS && (
+                  <div className="px-3 py-1.5 text-xs text-slate-500">…and {(visible.length - IMPORT_PREVIEW_ROWS).toLocaleString()} more</div>
+                )}
+              </div>
+              {counts.error > 0 && (
+                <p className="text-xs text-amber-400">Rows with errors are left out; fix them in the source and paste again to include them.</p>
+              )}
+            </div>
+          )}
         </div>
 
         <div className="p-6 border-t border-white/10 bg-slate-800/50 flex justify-end gap-3">
           <button onClick={onClose} className="px-4 py-2 text-slate-300 hover:text-white font-medium">Cancel</button>
           <button 
-            onClick={() => {
-                if(text.trim()) onImport(mode, text);
-            }}
-            disabled={!text.trim()}
+            onClick={() => onImport(toImport)}
+            disabled={toImport.length === 0}
             className="px-6 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-500/50 text-white rounded-lg shadow-lg shadow-blue-500/20 font-bold flex items-center gap-2"
           >
-            <Upload size={18} /> Import
+            <Upload size={18} /> Import {toImport.length.toLocaleString()}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const TemplateFillModal = ({
+  target,
+  onClose,
+  onSubmit
+}: {
+  target: { item: ShortcutData; remembered: FieldValues } | null;
+  onClose: () => void;
+  onSubmit: (values: FieldValues) => void;
+}) => {
+  const fields = useMemo(() => target ? parseTemplateFields(target.item.e) : [], [target]);
+  const [values, setValues] = useState<FieldValues>({});
+  const [showErrors, setShowErrors] = useState(false);
+
+  useEffect(() => {
+    if (!target) return;
+    setValues(initialFieldValues(fields, target.remembered));
+    setShowErrors(false);
+  }, [target, fields]);
+
+  if (!target) return null;
+
+  const errors = validateFields(fields, values);
+  const preview = fillTemplateFields(
+    resolvePlaceholders(target.item.e, { now: new Date(), locale: placeholderLocale(target.item.s) }),
+    values
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setShowErrors(true);
+    if (Object.keys(errors).length === 0) onSubmit(values);
+  };
+
+  const inputClass = (name: string) =>
+    `w-full bg-slate-900 border ${showErrors && errors[name] ? 'border-red-500' : 'border-white/10'} rounded-lg px-4 py-2 text-white focus:ring-2 focus:ring-purple-500 outline-none transition-colors`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <form onSubmit={handleSubmit} className="bg-slate-800 w-full max-w-lg rounded-2xl shadow-2xl border border-white/10 overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-white/10 flex justify-between items-center bg-slate-800/50">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <FileText size={20} className="text-purple-400" /> Fill In <span className="font-mono text-purple-300">{target.item.k}</span>
+          </h3>
+          <button type="button" onClick={onClose} className="text-slate-400 hover:text-white transition-colors"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {fields.map((field, idx) => (
+            <div key={field.name}>
+              <div className="flex justify-between">
+                <label className="block text-xs font-medium text-slate-400 uppercase mb-1">{field.name}</label>
+                {showErrors && errors[field.name] && <span className="text-xs text-red-400">{errors[field.name]}</span>}
+              </div>
+              {field.kind === 'choice' ? (
+                <select
+                  value={values[field.name] || ''}
+                  onChange={e => setValues(prev => ({ ...prev, [field.name]: e.target.value }))}
+                  autoFocus={idx === 0}
+                  className={inputClass(field.name)}
+                >
+                  {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  inputMode={field.kind === 'number' ? 'decimal' : undefined}
+                  value={values[field.name] || ''}
+                  onChange={e => setValues(prev => ({ ...prev, [field.name]: e.target.value }))}
+                  autoFocus={idx === 0}
+                  className={inputClass(field.name)}
+                />
+              )}
+            </div>
+          ))}
+
+          <div>
+            <label className="block text-xs font-medium text-slate-400 uppercase mb-1">Preview</label>
+            <div className="bg-black/20 rounded-xl p-3 border border-white/5 text-white/90 whitespace-pre-wrap break-all max-h-40 overflow-y-auto custom-scrollbar">{preview}</div>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-white/10 bg-slate-800/50 flex justify-end gap-3">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-slate-300 hover:text-white font-medium">Cancel</button>
+          <button
+            type="submit"
+            className="px-6 py-2 bg-purple-500 hover:bg-purple-600 text-white rounded-lg shadow-lg shadow-purple-500/20 font-bold flex items-center gap-2"
+          >
+            <Copy size={18} /> Copy
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+const OutboxPanel = ({
+  isOpen,
+  onClose,
+  entries,
+  onRetry,
+  onDiscard,
+  onRetryAll
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: OutboxEntry[];
+  onRetry: (seq: number) => void;
+  onDiscard: (seq: number) => void;
+  onRetryAll: () => void;
+}) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-slate-800 w-full max-w-2xl rounded-2xl shadow-2xl border border-white/10 overflow-hidden transform transition-all scale-100" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-white/10 flex justify-between items-center bg-slate-800/50">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <Clock size={20} className="text-amber-400" /> Queued Changes
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 space-y-3 max-h-[60vh] overflow-y-auto custom-scrollbar">
+          {entries.length === 0 ? (
+            <p className="text-sm text-slate-400 text-center py-8">All changes are synced.</p>
+          ) : entries.map(entry => (
+            <div key={entry.seq} className={`flex items-center gap-4 p-4 rounded-xl border ${entry.status === 'failed' ? 'bg-red-500/5 border-red-500/30' : 'bg-white/5 border-white/10'}`}>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-bold uppercase tracking-wide text-purple-300">{OUTBOX_LABELS[entry.method]}</span>
+                  <span className="font-mono text-sm text-white truncate">{entry.key}</span>
+                </div>
+                <div className="text-xs text-slate-500 mt-1">
+                  Queued {new Date(entry.createdAt).toLocaleString()} · {entry.attempts}/{MAX_AUTO_ATTEMPTS} attempts
+                </div>
+                {entry.lastError && (
+                  <div className={`text-xs mt-1 truncate ${entry.status === 'failed' ? 'text-red-400' : 'text-amber-400/80'}`}>{entry.lastError}</div>
+                )}
+              </div>
+              <button
+                onClick={() => onRetry(entry.seq!)}
+                className="p-2 rounded-lg text-slate-300 hover:text-white hover:bg-white/10 transition-colors"
+                title="Retry now"
+              >
+                <RotateCcw size={16} />
+              </button>
+              <button
+                onClick={() => onDiscard(entry.seq!)}
+                className="p-2 rounded-lg text-red-400 hover:text-white hover:bg-red-500 transition-colors"
+                title="Discard change"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-6 border-t border-white/10 bg-slate-800/50 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-300 hover:text-white font-medium">Close</button>
+          <button
+            onClick={onRetryAll}
+            disabled={entries.length === 0}
+            className="px-6 py-2 bg-amber-500 hover:bg-amber-600 disabled:bg-amber-500/50 text-white rounded-lg shadow-lg shadow-amber-500/20 font-bold flex items-center gap-2"
+          >
+            <RefreshCw size={18} /> Retry All
           </button>
         </div>
       </div>
@@ -414,34 +1009,89 @@ const ImportModal = ({
   );
 };
 
-// --- LOGIC: Inference & Filters ---
-
-const TYPE_FILTERS: Record<string, { label: string, keywords: string[] }> = {
-  dates: { label: '📅 Dates', keywords: ['date', 'month', 'year', 'calendar', 'time'] },
-  numbers: { label: '🔢 Numbers', keywords: ['number', 'numeric', 'digit', 'math', 'count'] },
-  greetings: { label: '👋 Greetings', keywords: ['greeting', 'hello', 'hi', 'morning', 'night', 'bye', 'welcome'] },
-  symbols: { label: '✨ Symbols', keywords: ['symbol', 'arrow', 'shape', 'star', 'heart', 'check'] },
-  kaomoji: { label: '😊 Kaomoji', keywords: ['kaomoji', 'face', 'emoticon', 'lenny'] },
-  email: { label: '📧 Email', keywords: ['email', 'mail', 'contact', 'address'] },
-  zodiac: { label: '♈ Zodiac', keywords: ['zodiac', 'horoscope', 'sign'] },
-  general: { label: '📁 General', keywords: ['general', 'misc', 'other'] }
+/** Lists the rows an export left out (and any warnings) once the file is downloaded. */
+const ExportReportModal = ({
+  report,
+  onClose
+}: {
+  report: { format: string; result: ExportResult } | null;
+  onClose: () => void;
+}) => {
+  if (!report) return null;
+  const { format, result } = report;
+  const warnings = result.warnings || [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-slate-800 w-full max-w-2xl rounded-2xl shadow-2xl border border-white/10 overflow-hidden transform transition-all scale-100" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-white/10 flex justify-between items-center bg-slate-800/50">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <Download size={20} className="text-blue-300" /> {format} Export
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 space-y-3 max-h-[60vh] overflow-y-auto custom-scrollbar">
+          <p className="text-sm text-slate-300">
+            Saved <span className="font-mono text-white">{result.filename}</span> with <span className="text-white font-bold">{result.exported.toLocaleString()}</span> shortcut{result.exported === 1 ? '' : 's'}.
+            {result.rejected.length > 0 && ` ${result.rejected.length.toLocaleString()} could not be exported:`}
+          </p>
+          {warnings.map((warning, idx) => (
+            <div key={idx} className="flex items-start gap-2 p-3 rounded-xl bg-amber-500/5 border border-amber-500/30 text-xs text-amber-300">
+              <AlertTriangle size={14} className="shrink-0 mt-0.5" /> {warning}
+            </div>
+          ))}
+          {result.rejected.map(({ item, reason }) => (
+            <div key={item.id} className="flex items-center gap-4 p-3 rounded-xl bg-red-500/5 border border-red-500/30">
+              <span className="font-mono text-sm text-white truncate w-40 shrink-0">{item.k || '(no trigger)'}</span>
+              <span className="text-xs text-slate-400 truncate flex-1">{item.e}</span>
+              <span className="text-xs text-red-400 shrink-0">{reason}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-6 border-t border-white/10 bg-slate-800/50 flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-slate-300 hover:text-white font-medium">Close</button>
+        </div>
+      </div>
+    </div>
+  );
 };
 
-const inferDescription = (item: ShortcutData): string => {
-  if (item.d) return item.d.toLowerCase();
-  
-  const k = item.k.toLowerCase();
-  const style = (item.style || '').toLowerCase();
+// --- LAYOUT: Virtualized Results ---
 
-  if (style.includes('kaomoji')) return 'kaomoji';
-  if (style.includes('symbols') || style.includes('stars') || style.includes('hearts') || style.includes('ancient') || style.includes('esoteric')) return 'symbols';
-  if (k.includes('@') || k.includes('mail') || k.includes('.com')) return 'email';
-  
-  return 'general';
+/** Mirrors the old responsive grid: 1 / sm:2 / lg:3 / xl:4 columns. */
+const gridColumns = (width: number) => width >= 1280 ? 4 : width >= 1024 ? 3 : width >= 640 ? 2 : 1;
+const listColumns = () => 1;
+
+const getShortcutKey = (item: ShortcutData) => item.id!;
+
+/** Rough card height until the real one is measured; multiline art grows with its line count. */
+const estimateCardHeight = (item: ShortcutData, columns: number) => {
+  const lines = item.e.includes('\n') ? item.e.split('\n').length : 1;
+  const content = lines > 1 ? lines * 20 : Math.ceil(item.e.length / (columns > 1 ? 18 : 80)) * 26;
+  return (columns > 1 ? 200 : 90) + content;
 };
 
+/** Card badge: the first style's short name, plus how many more a mixed row has. */
+const styleBadge = (keys: string[]) =>
+  (LETTER_STYLES[keys[0]]?.split(' ')[0] || 'Art') + (keys.length > 1 ? ` +${keys.length - 1}` : '');
+
 // --- MAIN APPLICATION ---
 
+interface SnapshotState {
+  token: string | null;
+  offset: number;
+  total: number;
+  watermark: string | null;
+  schemaVersion: string | null;
+  background: boolean; // Revalidating behind cached data rather than behind the overlay
+}
+
+const EMPTY_SNAPSHOT: SnapshotState = { token: null, offset: 0, total: 0, watermark: null, schemaVersion: null, background: false };
+
+type BackgroundSyncStatus = 'idle' | 'syncing' | 'error';
+
 export default function TextExpansionManager() {
   // Data State
   const [data, setData] = useState<ShortcutData[]>([]);
@@ -453,7 +1103,19 @@ export default function TextExpansionManager() {
   
   // Error & Resume State
   const [syncError, setSyncError] = useState<{ title: string, desc: string } | null>(null);
-  const snapshotState = useRef<{ token: string | null, offset: number, total: number }>({ token: null, offset: 0, total: 0 });
+  const snapshotState = useRef<SnapshotState>(EMPTY_SNAPSHOT);
+
+  // Delta Sync Cursor: watermark of the last completed sync and the schema it was taken against
+  const syncCursor = useRef<{ watermark: string | null, schemaVersion: string | null }>({ watermark: null, schemaVersion: null });
+
+  // Stale-While-Revalidate: full snapshots land here and only replace `data` once complete
+  const snapshotRows = useRef<ShortcutData[]>([]);
+  // The rows on screen, for async sync steps whose closure may hold an older `data`
+  const latestData = useRef<ShortcutData[]>([]);
+  latestData.current = data;
+  const [backgroundSync, setBackgroundSync] = useState<BackgroundSyncStatus>('idle');
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [syncGeneration, setSyncGeneration] = useState(0);
   
   // Abort Control
   const syncAbortController = useRef<AbortController | null>(null);
@@ -476,10 +1138,22 @@ export default function TextExpansionManager() {
   const [editingItem, setEditingItem] = useState<Partial<ShortcutData> | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isStyleGeneratorOpen, setIsStyleGeneratorOpen] = useState(false);
+  const [isStyleReviewOpen, setIsStyleReviewOpen] = useState(false);
+  const [isNumberToolsOpen, setIsNumberToolsOpen] = useState(false);
+  const [fillTarget, setFillTarget] = useState<{ item: ShortcutData; remembered: FieldValues } | null>(null);
+  const [previewNow, setPreviewNow] = useState(() => new Date()); // Clock for placeholder previews
+  const [exportReport, setExportReport] = useState<{ format: string; result: ExportResult } | null>(null);
+
+  // Offline Outbox
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [isOutboxPanelOpen, setIsOutboxPanelOpen] = useState(false);
+  const replayingOutbox = useRef(false);
 
   // Pagination
-  const [currentPage, setCurrentPage] = useState(1);
-  const itemsPerPage = 50;
+  const gridRef = useRef<VirtualGridHandle>(null);
+  const [visibleRange, setVisibleRange] = useState({ first: 0, last: 0 });
+  const [jumpTarget, setJumpTarget] = useState('');
 
   // --- Initialization & Data Sync ---
 
@@ -488,47 +1162,114 @@ export default function TextExpansionManager() {
     setIsGasEnvironment(!!isGas);
 
     if (isGas) {
-      startGasSync();
+      // Render the last good snapshot straight away, then revalidate behind it
+      loadCachedSnapshot()
+        .then(cache => {
+          if (!cache) return startGasSync();
+          syncCursor.current = { watermark: cache.watermark, schemaVersion: cache.schemaVersion };
+          setData(cache.shortcuts.map(withDetectedStyle));
+          setCachedAt(cache.savedAt);
+          setLoading(false);
+          startGasSync({ background: true });
+        })
+        .catch(err => {
+          console.error('Snapshot cache unavailable', err);
+          startGasSync();
+        });
     } else {
-      console.log('Local environment detected. Using static data.');
-      setData(EXPANSIONS_DATA);
-      setLoading(false);
+      console.log('Local environment detected. Using IndexedDB store.');
+      loadLocalShortcuts()
+        .then(setData)
+        .catch(err => {
+          console.error('Local store unavailable, using static data', err);
+          setData(EXPANSIONS_DATA.map(withDetectedStyle));
+          showToast('Local storage unavailable - edits will not persist', 'info');
+        })
+        .finally(() => setLoading(false));
     }
   }, []);
 
-  const startGasSync = async () => {
-    setLoading(true);
+  useEffect(() => {
+    if (!isGasEnvironment) return;
+
+    refreshOutbox();
+    const onOnline = () => replayOutbox();
+    window.addEventListener('online', onOnline);
+    const timer = setInterval(() => replayOutbox(), OUTBOX_REPLAY_INTERVAL);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      clearInterval(timer);
+    };
+  }, [isGasEnvironment]);
+
+  // Keep `{time}` and friends in card previews current
+  useEffect(() => {
+    const timer = setInterval(() => setPreviewNow(new Date()), PREVIEW_CLOCK_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Persist the freshly synced set so the next load can start from it
+  useEffect(() => {
+    if (syncGeneration === 0) return;
+    const { watermark, schemaVersion } = syncCursor.current;
+    saveCachedSnapshot({ shortcuts: data, watermark, schemaVersion })
+      .then(saved => setCachedAt(saved.savedAt))
+      .catch(err => console.error('Could not cache snapshot', err));
+  }, [syncGeneration]);
+
+  const startGasSync = async ({ forceFull = false, background = false } = {}) => {
+    if (background) {
+      setBackgroundSync('syncing');
+    } else {
+      setLoading(true);
+    }
     setSyncError(null);
     setLoadStartTime(Date.now());
     setLoadStatus('Connecting to backend...');
     
     // Reset snapshot state
-    snapshotState.current = { token: null, offset: 0, total: 0 };
+    snapshotState.current = { ...EMPTY_SNAPSHOT, background };
     syncAbortController.current = new AbortController();
 
     try {
       // 1. Bootstrap
       const bootstrap = await withRetry(() => runGas('getAppBootstrapData', []));
       if (!bootstrap.ok) throw new Error(bootstrap.message || "Bootstrap failed");
+      const schemaVersion = bootstrap.schemaVersion != null ? String(bootstrap.schemaVersion) : null;
 
-      // 2. Start Snapshot
+      // 2a. Delta: only rows changed since the last sync, unless the sheet schema moved
+      const cursor = syncCursor.current;
+      if (!forceFull && cursor.watermark && cursor.schemaVersion === schemaVersion) {
+        if (await runDeltaSync(cursor.watermark, schemaVersion)) return;
+      }
+
+      // 2b. Start Snapshot
       setLoadStatus('Preparing snapshot...');
       const snapshot = await withRetry(() => runGas('beginShortcutsSnapshotHandler', []));
       if (!snapshot.ok) throw new Error(snapshot.message || "Snapshot failed");
 
       const { snapshotToken, total, shortcuts, hasMore, offset } = snapshot;
       
-      // Update Resume State
-      snapshotState.current = { token: snapshotToken, offset, total: total || 0 };
-
-      const normalized = normalizeShortcuts(shortcuts);
-      setData(normalized);
+      const normalized = normalizeShortcuts(shortcuts, 0);
+
+      // Update Resume State (prefer the server's snapshot time as the next delta watermark)
+      snapshotState.current = {
+        token: snapshotToken,
+        offset,
+        total: total || 0,
+        watermark: snapshot.watermark || latestUpdatedAt(normalized),
+        schemaVersion,
+        background
+      };
+
+      snapshotRows.current = normalized;
+      if (!background) setData(normalized);
       setLoadProgress({ current: normalized.length, total: total || 0 });
 
       if (hasMore) {
         await fetchNextBatch(snapshotToken, offset, total);
       } else {
-        finishLoading();
+        await finishLoading();
       }
 
     } catch (err: any) {
@@ -549,30 +1290,88 @@ export default function TextExpansionManager() {
 
       if (syncAbortController.current?.signal.aborted) throw new Error("CANCELLED");
 
-      // Update Resume State
-      snapshotState.current = { token, offset: response.offset, total };
+      const batch = normalizeShortcuts(response.shortcuts, snapshotRows.current.length);
 
-      setData(prev => {
-        const newData = [...prev, ...normalizeShortcuts(response.shortcuts)];
-        setLoadProgress({ current: newData.length, total: total });
-        return newData;
-      });
+      // Update Resume State
+      snapshotState.current = {
+        ...snapshotState.current,
+        token,
+        offset: response.offset,
+        total,
+        watermark: laterTimestamp(snapshotState.current.watermark, latestUpdatedAt(batch))
+      };
+
+      snapshotRows.current = [...snapshotRows.current, ...batch];
+      setLoadProgress({ current: snapshotRows.current.length, total: total });
+      // In the background the cached rows stay on screen until the snapshot is complete
+      if (!snapshotState.current.background) setData(snapshotRows.current);
 
       if (response.hasMore) {
         // Recursive call
         await fetchNextBatch(token, response.offset, total);
       } else {
-        finishLoading();
+        await finishLoading();
       }
     } catch (err) {
       throw err; // Propagate to main catch
     }
   };
 
+  /**
+   * Pulls only rows changed or deleted after `since` and merges them into the
+   * loaded set. Returns false when a full snapshot is needed instead: the
+   * backend asks for one, or a changed row cannot be matched for certain.
+   */
+  const runDeltaSync = async (since: string, schemaVersion: string | null): Promise<boolean> => {
+    setLoadStatus(`Fetching changes since ${new Date(since).toLocaleString()}...`);
+
+    let watermark = since;
+    let applied = 0;
+    let hasMore = true;
+    let rows = latestData.current;
+
+    while (hasMore) {
+      if (syncAbortController.current?.signal.aborted) throw new Error("CANCELLED");
+
+      const delta = await withRetry(() => runGas('fetchShortcutsDelta', [watermark]));
+      if (!delta.ok) throw new Error(delta.message || "Delta sync failed");
+      if (delta.fullResyncRequired) return false;
+
+      if (syncAbortController.current?.signal.aborted) throw new Error("CANCELLED");
+
+      const changed = normalizeShortcuts(delta.shortcuts || []);
+      const deleted: string[] = delta.deleted || [];
+      const adopted = adoptRowIds(rows, changed);
+      if (!adopted) return false;
+      rows = mergeDelta(rows, adopted, deleted);
+      setData(prev => mergeDelta(prev, adopted, deleted));
+      applied += changed.length + deleted.length;
+
+      const next = delta.watermark || laterTimestamp(watermark, latestUpdatedAt(changed)) || watermark;
+      // Guard against a backend that keeps reporting more without advancing
+      hasMore = !!delta.hasMore && next !== watermark;
+      watermark = next;
+    }
+
+    syncCursor.current = { watermark, schemaVersion };
+    if (applied > 0) showToast(`Synced ${applied} change${applied === 1 ? '' : 's'}`, 'success');
+    else if (!snapshotState.current.background) showToast('Already up to date', 'success');
+    completeSync();
+    return true;
+  };
+
   const handleSyncError = (err: any) => {
+    const { background } = snapshotState.current;
     if (err.message === "CANCELLED") {
       setLoading(false);
+      setBackgroundSync('idle');
       showToast('Sync cancelled by user', 'info');
+    } else if (background) {
+      // Cached data is still usable, so report through the badge instead of blocking the UI
+      const friendly = getFriendlyError(err);
+      setSyncError(friendly);
+      setBackgroundSync('error');
+      showToast(`${friendly.title} - showing cached data`, 'error');
     } else {
       const friendly = getFriendlyError(err);
       setSyncError(friendly);
@@ -588,15 +1387,30 @@ export default function TextExpansionManager() {
     if (token) {
       // Re-create abort controller
       syncAbortController.current = new AbortController();
+      if (snapshotState.current.background) setBackgroundSync('syncing');
       fetchNextBatch(token, offset, total).catch(handleSyncError);
     } else {
-      startGasSync();
+      startGasSync({ background: snapshotState.current.background });
     }
   };
 
-  const finishLoading = () => {
-    setLoading(false);
+  const finishLoading = async () => {
+    const { watermark, schemaVersion } = snapshotState.current;
+    syncCursor.current = { watermark, schemaVersion };
+    // Swap in the complete snapshot: stale rows are replaced and removed rows dropped,
+    // while changes still waiting in the outbox stay on screen until they replay
+    const pending = await listOutbox().catch(() => [] as OutboxEntry[]);
+    setData(applyOutbox(snapshotRows.current, pending, payload => normalizeShortcuts([payload])[0]));
     showToast('All shortcuts synced successfully', 'success');
+    completeSync();
+  };
+
+  const completeSync = () => {
+    setLoading(false);
+    setBackgroundSync('idle');
+    setSyncGeneration(g => g + 1);
+    // The backend is reachable again, so push anything queued while offline
+    replayOutbox();
   };
 
   const cancelSync = () => {
@@ -604,16 +1418,24 @@ export default function TextExpansionManager() {
       syncAbortController.current.abort();
     }
     setLoading(false);
+    setBackgroundSync('idle');
     setSyncError(null);
   };
 
-  const normalizeShortcuts = (raw: any[]): ShortcutData[] => {
-    return raw.map(item => ({
+  /**
+   * Rows without an id are identified by their sheet position: the one the
+   * backend sends with a delta row, or `firstPosition` onwards in a snapshot.
+   */
+  const normalizeShortcuts = (raw: BackendShortcut[], firstPosition?: number): ShortcutData[] => {
+    return raw.map((item, idx) => ({
+      id: item.id || (item.position !== undefined ? sheetRowId(item.position)
+        : firstPosition !== undefined ? sheetRowId(firstPosition + idx) : undefined),
       k: item.key || '',
       e: item.expansion || '',
-      s: (item.language && item.language.toLowerCase().includes('span')) ? 'spanish' : 
-         (item.language && item.language.toLowerCase().includes('eng')) ? 'english' : 'all',
+      s: toLanguageCategory(item.language),
+      language: item.language || undefined,
       style: item.style || item.fontStyle || '', // Use mapped style from backend if available
+      detectedStyle: detectStyles(item.expansion || '').join(',') || undefined,
       d: item.description || '',
       tags: item.tags,
       application: item.application,
@@ -623,25 +1445,26 @@ export default function TextExpansionManager() {
       subcategory: item.subcategory,
       platform: item.platform,
       usageFrequency: item.usageFrequency,
+      options: item.options || undefined,
       updatedAt: item.updatedAt
     }));
   };
 
   // --- MASTER Automation Tools (Proxies) ---
-  const handleMasterAction = (action: keyof typeof window.google.script.run) => {
+  const handleMasterAction = (action: LauncherMethod) => {
     if (!isGasEnvironment) {
       showToast('Available in Google Apps Script only', 'info');
       return;
     }
     setShowToolsDropdown(false);
-    runGas(action as string).catch(err => {
+    runGas(action).catch(err => {
       console.error(err);
       showToast('Failed to launch tool', 'error');
     });
   };
 
   // Handler for actions that return status/data (Maintenance/Cache)
-  const handleMaintenanceAction = async (action: string, label: string) => {
+  const handleMaintenanceAction = async (action: ActionMethod, label: string) => {
     if (!isGasEnvironment) {
       showToast('Available in Google Apps Script only', 'info');
       return;
@@ -676,33 +1499,233 @@ export default function TextExpansionManager() {
     }
   };
 
-  const handleImport = async (mode: 'csv' | 'json', text: string) => {
-    if (!isGasEnvironment) {
-      showToast('Import only available in GAS environment', 'info');
+  /**
+   * Adds rows built in the browser (a generated number range, a previewed
+   * import): one bulkImport call in the sheet, followed by a sync; one
+   * transaction locally. Either way a row with a known id, or without an id
+   * and with a trigger that exists, updates that row.
+   */
+  const handleBulkAdd = async (rows: ShortcutData[]) => {
+    if (rows.length === 0) return;
+    const label = `${rows.length} shortcut${rows.length === 1 ? '' : 's'}`;
+
+    if (isGasEnvironment) {
+      // bulkImport matches on the trigger, so a variant of a loaded row is added on its own under its new id
+      const loadedIds = new Set(data.map(item => item.id));
+      const loadedKeys = new Set(data.map(item => item.k));
+      const isVariant = (row: ShortcutData) => !!row.id && !loadedIds.has(row.id) && loadedKeys.has(row.k);
+      const batch = rows.filter(row => !isVariant(row));
+      const variants = rows.filter(isVariant);
+
+      setLoading(true);
+      setLoadStatus(`Adding ${label}...`);
+      let inserted = 0;
+      let updated = 0;
+      try {
+        if (batch.length > 0) {
+          const res = await withRetry(() => runGas('bulkImport', [{ mode: 'json', text: JSON.stringify(batch.map(toPayload)) }]));
+          if (!res.ok) throw new Error(res.message || 'Import failed');
+          inserted += res.inserted;
+          updated += res.updated;
+          if (res.errors.length > 0) setTimeout(() => showToast(`Warning: ${res.errors.length} rows failed validation.`, 'info'), 3000);
+        }
+        for (const row of variants) {
+          const res = await withRetry(() => runGas('upsertShortcut', [toPayload(row)]));
+          if (!res.ok) throw new GasRejectedError('upsertShortcut', res.message || `Could not add a variant of "${row.k}"`);
+          inserted++;
+        }
+        showToast(`Added ${inserted}, updated ${updated}`, 'success');
+        handleRetrySync();
+      } catch (err: any) {
+        setLoading(false);
+        handleError(inserted + updated > 0 ? `Added ${inserted + updated} of ${label}` : `Could not add ${label}`, err);
+        if (inserted + updated > 0) handleRetrySync();
+      }
       return;
     }
-    setIsImportModalOpen(false);
-    setLoading(true);
-    setLoadStatus(`Importing ${mode.toUpperCase()} data...`);
 
+    // Same upsert as bulkImport: by id when given (a new id adds a variant), else by trigger
+    const existingById = new Map<string, ShortcutData>(data.map(item => [item.id!, item]));
+    const existingByKey = new Map<string, ShortcutData>();
+    data.forEach(item => { if (!existingByKey.has(item.k)) existingByKey.set(item.k, item); });
+    const previous = new Map<string, ShortcutData>();
+    const upserts = rows.map(row => {
+      const existing = row.id ? existingById.get(row.id) : existingByKey.get(row.k);
+      if (!existing) return withDetectedStyle({ ...row, id: row.id || createLocalId() });
+      previous.set(existing.id!, existing);
+      return withDetectedStyle({ ...existing, ...row, id: existing.id });
+    });
+    const upsertById = new Map(upserts.map(row => [row.id!, row]));
+    setData(prev => [
+      ...upserts.filter(row => !previous.has(row.id!)),
+      ...prev.map(i => upsertById.get(i.id!) || i)
+    ]);
     try {
-      const res = await withRetry(() => runGas('bulkImport', [{ mode, text }]));
-      if (res && res.ok) {
-        showToast(`Import Success: ${res.inserted} inserted, ${res.updated} updated.`, 'success');
-        if (res.errors && res.errors.length > 0) {
-            setTimeout(() => showToast(`Warning: ${res.errors.length} rows failed validation.`, 'info'), 3000);
-        }
-        handleRetrySync();
-      } else {
-        throw new Error(res?.message || 'Import failed');
+      await putLocalShortcuts(upserts);
+      const updated = previous.size;
+      showToast(updated > 0 ? `Added ${upserts.length - updated}, updated ${updated} (Local Mode)` : `Added ${label} (Local Mode)`, 'success');
+    } catch (err: any) {
+      setData(prev => prev
+        .filter(i => !upsertById.has(i.id!) || previous.has(i.id!))
+        .map(i => previous.get(i.id!) || i)); // Rollback
+      handleError(`Could not add ${label} - changes reverted`, err);
+    }
+  };
+
+  // --- Offline Outbox ---
+
+  const refreshOutbox = () => {
+    listOutbox().then(setOutbox).catch(err => console.error('Outbox unavailable', err));
+  };
+
+  const sendQueuedMutation = async (entry: OutboxEntry) => {
+    const res = await runGas(entry.method, entry.args);
+    if (res && res.ok === false) throw new GasRejectedError(entry.method, res.message);
+  };
+
+  const replayOutbox = async (manual = false) => {
+    if (!window.google?.script || replayingOutbox.current) return;
+    replayingOutbox.current = true;
+    try {
+      const { sent, remaining } = await flushOutbox(sendQueuedMutation);
+      if (sent > 0) showToast(`Synced ${sent} queued change${sent === 1 ? '' : 's'}`, 'success');
+      else if (manual && remaining > 0) showToast('Queued changes are still failing', 'error');
+    } catch (err) {
+      console.error('Outbox replay failed', err);
+    } finally {
+      replayingOutbox.current = false;
+      refreshOutbox();
+    }
+  };
+
+  /**
+   * Parks a mutation in the outbox instead of reverting it. The optimistic
+   * change is only rolled back if the outbox itself cannot be written.
+   */
+  const queueMutation = async (method: OutboxMethod, args: GasArgs<OutboxMethod>, target: { key: string, id?: string }, previousData: ShortcutData[], cause?: any) => {
+    try {
+      await enqueueMutation(method, args, target);
+      showToast(`${OUTBOX_LABELS[method]} queued - will retry when back online`, 'info');
+    } catch (storeErr: any) {
+      setData(previousData); // Rollback
+      handleError(`${OUTBOX_LABELS[method]} failed - changes reverted`, cause || storeErr);
+    }
+    refreshOutbox();
+  };
+
+  const handleRetryQueued = async (seq: number) => {
+    await resetMutation(seq).catch(err => console.error(err));
+    replayOutbox(true);
+  };
+
+  const handleRetryAllQueued = async () => {
+    await Promise.all(outbox.filter(e => e.status === 'failed').map(e => resetMutation(e.seq!))).catch(err => console.error(err));
+    replayOutbox(true);
+  };
+
+  const handleDiscardQueued = async (seq: number) => {
+    if (!confirm('Discard this queued change? It will not be sent to the sheet.')) return;
+    try {
+      await discardMutation(seq);
+      showToast('Queued change discarded - run Sync Data to restore the sheet version', 'info');
+    } catch (err: any) {
+      handleError('Could not discard change', err);
+    }
+    refreshOutbox();
+  };
+
+  const outboxStatusById = useMemo(() => {
+    const map = new Map<string, OutboxEntry['status']>();
+    outbox.forEach(entry => {
+      // Entries queued before row ids existed only know their trigger
+      const ids = entry.targetId ? [entry.targetId] : data.filter(i => i.k === entry.key).map(i => i.id!);
+      ids.forEach(id => {
+        if (map.get(id) !== 'failed') map.set(id, entry.status);
+      });
+    });
+    return map;
+  }, [outbox, data]);
+
+  // --- CRUD Operations with Optimistic UI & Outbox Fallback ---
+
+  const isKeyTaken = useCallback((key: string, exceptId: string) =>
+    data.some(i => i.k === key && i.id !== exceptId), [data]);
+
+  /** Sends a save straight to the sheet, queueing it if the sheet cannot be reached. */
+  const sendUpsert = async (saved: ShortcutData, payload: ShortcutPayload, previousData: ShortcutData[]) => {
+    try {
+      // Updated: Use upsertShortcut from uiHandlers.gs
+      const res = await withRetry(() => runGas('upsertShortcut', [payload]));
+      if (!res.ok) throw new GasRejectedError('upsertShortcut', res.message);
+      // Adopt the sheet's row id if it assigned its own
+      if (res.id && res.id !== saved.id) {
+        setData(prev => prev.map(i => i.id === saved.id ? { ...i, id: res.id } : i));
       }
+      showToast(res.message || 'Shortcut saved', 'success');
     } catch (err: any) {
-      showToast(`Import Failed: ${err.message}`, 'error');
-      setLoading(false);
+      if (isTransportFailure(err)) {
+        await queueMutation('upsertShortcut', [payload], { id: saved.id, key: saved.k }, previousData, err);
+        return;
+      }
+      setData(previousData); // Rollback: the sheet refused it, so queueing would only park it
+      handleError('Save rejected - changes reverted', err);
     }
   };
 
-  // --- CRUD Operations with Optimistic UI & Rollback ---
+  /**
+   * Changes the trigger of an existing row in place, so its favorite flag and
+   * metadata survive. Renames are not queued: a failed rename restores the old
+   * trigger, since the new one may be taken by the time the queue replays.
+   * Changes already queued for the row are flushed first.
+   */
+  const handleRename = async (existing: ShortcutData, saved: ShortcutData, payload: ShortcutPayload) => {
+    if (isKeyTaken(saved.k, saved.id!)) {
+      showToast(`Trigger "${saved.k}" is already in use`, 'error');
+      return;
+    }
+    if (isGasEnvironment) {
+      // Older queued changes to this row must land first, or their replay would undo the rename
+      const queuedFor = async () => (await listOutbox().catch(() => [] as OutboxEntry[]))
+        .filter(entry => entry.targetId ? entry.targetId === saved.id : entry.key === existing.k);
+      if ((await queuedFor()).length > 0) await replayOutbox();
+      if ((await queuedFor()).length > 0) {
+        showToast('This shortcut has queued changes that could not be sent yet - rename it once they sync', 'error');
+        return;
+      }
+    }
+
+    const rollback = () => setData(prev => prev.map(i => i.id === saved.id ? existing : i));
+    setData(prev => prev.map(i => i.id === saved.id ? saved : i));
+    setIsEditModalOpen(false);
+
+    if (!isGasEnvironment) {
+      try {
+        await putLocalShortcut(saved);
+        showToast(`Renamed to "${saved.k}" (Local Mode)`, 'success');
+      } catch (err: any) {
+        rollback();
+        handleError('Local rename failed - changes reverted', err);
+      }
+      return;
+    }
+
+    try {
+      const res = await withRetry(() => runGas('renameShortcut', [{ id: saved.id!, oldKey: existing.k, newKey: saved.k }]));
+      if (!res.ok) throw new Error(res.message);
+    } catch (err: any) {
+      rollback();
+      handleError('Rename failed - changes reverted', err);
+      return;
+    }
+
+    // Anything else edited alongside the trigger goes through the normal save path
+    const fields: Array<keyof ShortcutData> = ['e', 's', 'd', 'style', 'tags', 'application', 'mainCategory', 'subcategory', 'platform', 'usageFrequency', 'options'];
+    if (fields.some(f => (existing[f] ?? '') !== (saved[f] ?? ''))) {
+      await sendUpsert(saved, payload, data.map(i => i.id === saved.id ? { ...existing, k: saved.k } : i));
+    } else {
+      showToast(`Renamed "${existing.k}" to "${saved.k}"`, 'success');
+    }
+  };
 
   const handleSave = async (item: Partial<ShortcutData>) => {
     // Basic validation logic moved to EditModal, but keep safety check here
@@ -711,84 +1734,160 @@ export default function TextExpansionManager() {
       return;
     }
 
-    const payload = {
-      key: item.k,
-      expansion: item.e,
-      language: item.s === 'all' ? '' : item.s,
-      description: item.d,
-      tags: item.tags,
-      application: item.application,
-      mainCategory: item.mainCategory,
-      subcategory: item.subcategory,
-      fontStyle: item.style, // Map style back to fontStyle
-      platform: item.platform,
-      usageFrequency: item.usageFrequency
-    };
-
     const previousData = [...data]; // Backup
+    const existing = item.id ? data.find(i => i.id === item.id) : undefined;
+    const saved = withDetectedStyle((existing ? { ...existing, ...item } : { ...item, id: item.id || createLocalId() }) as ShortcutData);
+    const payload = toPayload(saved);
+
+    if (existing && existing.k !== saved.k) {
+      await handleRename(existing, saved, payload);
+      return;
+    }
 
     // Optimistic Update
     setData(prev => {
-      const idx = prev.findIndex(i => i.k === item.k);
+      const idx = prev.findIndex(i => i.id === saved.id);
       if (idx >= 0) {
         const next = [...prev];
-        next[idx] = { ...prev[idx], ...item } as ShortcutData;
+        next[idx] = saved;
         return next;
       }
-      return [{ ...item } as ShortcutData, ...prev];
+      return [saved, ...prev];
     });
 
     setIsEditModalOpen(false);
 
     if (isGasEnvironment) {
+      if (outbox.length > 0) {
+        // Queue behind earlier offline changes so they replay in order
+        await queueMutation('upsertShortcut', [payload], { id: saved.id, key: saved.k }, previousData);
+        replayOutbox();
+        return;
+      }
+      await sendUpsert(saved, payload, previousData);
+    } else {
       try {
-        // Updated: Use upsertShortcut from uiHandlers.gs
-        const res = await withRetry(() => runGas('upsertShortcut', [payload]));
-        if (!res.ok) throw new Error(res.message);
-        showToast(res.message || 'Shortcut saved', 'success');
+        await putLocalShortcut(saved);
+        showToast('Saved (Local Mode)', 'success');
       } catch (err: any) {
         setData(previousData); // Rollback
-        handleError('Save failed - changes reverted', err);
+        handleError('Local save failed - changes reverted', err);
       }
-    } else {
-      showToast('Saved (Local Mode)', 'success');
     }
   };
 
-  const handleDelete = async (key: string) => {
+  // Rows with no stored style whose text reads as one; a stored style is the user's choice and is left alone
+  const styleReviewRows = useMemo(() => data.filter(i => i.detectedStyle && !i.style), [data]);
+
+  /**
+   * Stores the detected style on each chosen row. Sheet writes all go through
+   * the outbox so a long batch replays in order and survives going offline;
+   * rows that could not be saved or queued are rolled back.
+   */
+  const handleApplyDetectedStyles = async (rows: ShortcutData[]) => {
+    const updated = rows.map(row => ({ ...row, style: row.detectedStyle }));
+    const originals = new Map(rows.map(row => [row.id!, row]));
+    setData(prev => {
+      const byId = new Map(updated.map(row => [row.id!, row]));
+      return prev.map(i => byId.get(i.id!) || i);
+    });
+
+    const written = new Set<string>();
+    try {
+      for (const row of updated) {
+        if (isGasEnvironment) await enqueueMutation('upsertShortcut', [toPayload(row)], { id: row.id, key: row.k });
+        else await putLocalShortcut(row);
+        written.add(row.id!);
+      }
+      showToast(isGasEnvironment
+        ? `Applying styles to ${written.size} shortcut${written.size === 1 ? '' : 's'}...`
+        : `Applied styles to ${written.size} shortcut${written.size === 1 ? '' : 's'} (Local Mode)`,
+        isGasEnvironment ? 'info' : 'success');
+    } catch (err: any) {
+      setData(prev => prev.map(i => !written.has(i.id!) && originals.get(i.id!) || i)); // Rollback the rest
+      handleError(`Saved ${written.size} of ${rows.length} styles - the rest were reverted`, err);
+    }
+
+    setIsStyleReviewOpen(false);
+    if (isGasEnvironment) {
+      refreshOutbox();
+      replayOutbox();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const item = data.find(i => i.id === id);
+    if (!item) return;
     if (!confirm('Are you sure you want to delete this shortcut?')) return;
 
+    const target: ShortcutRef = { id, key: item.k };
     const previousData = [...data]; // Backup
-    setData(prev => prev.filter(i => i.k !== key));
+    setData(prev => prev.filter(i => i.id !== id));
     setIsEditModalOpen(false);
 
     if (isGasEnvironment) {
+      if (outbox.length > 0) {
+        await queueMutation('deleteShortcut', [target], target, previousData);
+        replayOutbox();
+        return;
+      }
       try {
-        // Updated: Use deleteShortcut from uiHandlers.gs, passing key string directly
-        const res = await withRetry(() => runGas('deleteShortcut', [key]));
-        if (!res.ok) throw new Error(res.message);
+        // Updated: Use deleteShortcut from uiHandlers.gs, addressing the row by id
+        const res = await withRetry(() => runGas('deleteShortcut', [target]));
+        if (!res.ok) throw new GasRejectedError('deleteShortcut', res.message);
         showToast('Shortcut deleted', 'success');
       } catch (err: any) {
+        if (isTransportFailure(err)) {
+          await queueMutation('deleteShortcut', [target], target, previousData, err);
+          return;
+        }
         setData(previousData); // Rollback
-        handleError('Delete failed - changes reverted', err);
+        handleError('Delete rejected - changes reverted', err);
       }
     } else {
-      showToast('Deleted (Local Mode)', 'success');
+      try {
+        await deleteLocalShortcut(id);
+        showToast('Deleted (Local Mode)', 'success');
+      } catch (err: any) {
+        setData(previousData); // Rollback
+        handleError('Local delete failed - changes reverted', err);
+      }
     }
   };
 
   const handleToggleFavorite = async (e: React.MouseEvent, item: ShortcutData) => {
     e.stopPropagation();
     
+    const previousData = [...data]; // Backup
+    const target: ShortcutRef = { id: item.id!, key: item.k };
+
     // Optimistic
-    setData(prev => prev.map(i => i.k === item.k ? { ...i, favorite: !i.favorite } : i));
+    setData(prev => prev.map(i => i.id === item.id ? { ...i, favorite: !i.favorite } : i));
 
     if (isGasEnvironment) {
       // Use toggleFavorite if defined, or assume backend handles simple toggle or add
       // Given comments, we assume 'toggleFavoriteHandler' or specific logic exists or we can't reliably toggle easily without separate Add/Remove
       // Reverting to 'toggleFavorite' assuming user has favorites.gs
-      runGas('toggleFavorite', [item.k]).catch(err => {
+      if (outbox.length > 0) {
+        await queueMutation('toggleFavorite', [target], target, previousData);
+        replayOutbox();
+        return;
+      }
+      try {
+        const res = await runGas('toggleFavorite', [target]);
+        if (res && res.ok === false) throw new GasRejectedError('toggleFavorite', res.message);
+      } catch (err: any) {
         console.error("Fav toggle failed", err);
+        if (isTransportFailure(err)) {
+          await queueMutation('toggleFavorite', [target], target, previousData, err);
+          return;
+        }
+        setData(previousData); // Rollback
+        handleError('Favorite rejected - changes reverted', err);
+      }
+    } else {
+      putLocalShortcut({ ...item, favorite: !item.favorite }).catch(err => {
+        handleError('Favorite not saved locally', err);
       });
     }
   };
@@ -806,72 +1905,172 @@ export default function TextExpansionManager() {
     setToasts(prev => prev.filter(t => t.id !== id));
   }, []);
 
-  const handleCopy = useCallback(async (text: string, id: string) => {
+  /** Copies a row's expansion with its placeholders (and any form values) filled in. */
+  const copyExpansion = useCallback(async (item: ShortcutData, values?: FieldValues) => {
+    const id = item.id!;
     try {
+      // Placeholders are filled in now, so `{year}` is always this year
+      const resolved = await expandTemplate(item.e, item.s);
+      const text = values ? fillTemplateFields(resolved, values) : resolved;
       await navigator.clipboard.writeText(text);
       setCopiedId(id);
-      showToast('Copied to clipboard!', 'success');
+      if (usesClipboard(resolved)) showToast('Copied - clipboard contents could not be read', 'info');
+      else showToast('Copied to clipboard!', 'success');
       setTimeout(() => setCopiedId(null), 2000);
 
       if (isGasEnvironment) {
-        // Find item to get correct Key
-        const item = data.find((_, idx) => `${_.k}-${idx}` === id);
-        if (item) {
-           // Updated: Handle return value from clipboard favorite
-           runGas('handleClipboardFavorite', [item.k])
-             .then(res => {
-                if(res.ok && res.favorite) {
-                    // Update UI to show favorite if backend confirmed
-                    setData(prev => prev.map(i => i.k === item.k ? { ...i, favorite: true } : i));
-                }
-             })
-             .catch(e => console.log('Auto-fav failed', e));
-        }
+        // Updated: Handle return value from clipboard favorite
+        runGas('handleClipboardFavorite', [{ id, key: item.k }])
+          .then(res => {
+             if(res.ok && res.favorite) {
+                 // Update UI to show favorite if backend confirmed
+                 setData(prev => prev.map(i => i.id === id ? { ...i, favorite: true } : i));
+             }
+          })
+          .catch(e => console.log('Auto-fav failed', e));
       }
     } catch (err) {
       showToast('Failed to copy', 'error');
     }
-  }, [isGasEnvironment, data]);
+  }, [isGasEnvironment]);
+
+  // Rows with `{{field}}` blanks open the fill-in form first, primed with last time's values
+  const handleCopy = useCallback(async (item: ShortcutData) => {
+    if (!hasTemplateFields(item.e)) return copyExpansion(item);
+    const remembered = await loadFieldValues(item.id!).catch(err => {
+      console.warn('Saved field values unavailable', err);
+      return {};
+    });
+    setFillTarget({ item, remembered });
+  }, [copyExpansion]);
+
+  const handleFillSubmit = (values: FieldValues) => {
+    if (!fillTarget) return;
+    const { item } = fillTarget;
+    setFillTarget(null);
+    saveFieldValues(item.id!, values).catch(err => console.warn('Could not remember field values', err));
+    copyExpansion(item, values);
+  };
 
   // --- Filtering & Stats ---
 
-  const filteredData = useMemo(() => {
-    return data.filter(item => {
-      const matchesSearch = searchTerm === '' || 
-        item.k.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        item.e.toLowerCase().includes(searchTerm.toLowerCase());
-      
-      const matchesFilter = activeFilter === 'all' || item.s === activeFilter;
-      const matchesStyle = activeStyle === 'all' ? true : item.style === activeStyle;
-      const matchesCategory = activeCategory === 'all' ? true : item.mainCategory === activeCategory;
-      
-      let matchesType = true;
-      if (activeType !== 'all') {
-        const keywords = TYPE_FILTERS[activeType].keywords;
-        const desc = inferDescription(item);
-        matchesType = keywords.some(kw => desc.includes(kw));
-      }
-      
-      return matchesSearch && matchesFilter && matchesStyle && matchesType && matchesCategory;
-    });
-  }, [data, searchTerm, activeFilter, activeStyle, activeType, activeCategory]);
+  const parsedQuery = useMemo(() => parseQuery(searchTerm), [searchTerm]);
+
+  // The index lives in a worker; it is fed row diffs and answers each filter change asynchronously
+  const searchClient = useRef<SearchClient | null>(null);
+  const [stats, setStats] = useState<IndexStats>(EMPTY_STATS);
+  const [searchResults, setSearchResults] = useState({ rows: [] as ShortcutData[], highlights: new Map<string, SearchHit['highlights']>(), signature: '' });
+  const [searchPending, setSearchPending] = useState(false);
 
-  const totalPages = Math.ceil(filteredData.length / itemsPerPage);
-  const paginatedData = useMemo(() => {
-    const start = (currentPage - 1) * itemsPerPage;
-    return filteredData.slice(start, start + itemsPerPage);
-  }, [filteredData, currentPage, itemsPerPage]);
+  useEffect(() => {
+    const client = createSearchClient(setStats);
+    searchClient.current = client;
+    return () => client.dispose();
+  }, []);
+
+  useEffect(() => { searchClient.current?.sync(data); }, [data]);
+
+  const dataById = useMemo(() => new Map(data.map(i => [i.id!, i])), [data]);
 
-  useEffect(() => { setCurrentPage(1); }, [searchTerm, activeFilter, activeStyle, activeType, activeCategory]);
+  useEffect(() => {
+    const client = searchClient.current;
+    if (!client) return;
+    let current = true;
+    // Identifies this combination of filters so the grid can restore its scroll position
+    const signature = JSON.stringify([searchTerm, activeFilter, activeStyle, activeType, activeCategory]);
+    setSearchPending(true);
+    client.query({ text: searchTerm, language: activeFilter, style: activeStyle, type: activeType, category: activeCategory })
+      .then(result => {
+        if (!current || !result) return;
+        // While a query is active ids come back ranked by relevance instead of sheet order
+        setSearchResults({
+          rows: result.ids.map(id => dataById.get(id)).filter((i): i is ShortcutData => !!i),
+          highlights: new Map(result.highlights),
+          signature,
+        });
+        setSearchPending(false);
+      });
+    return () => { current = false; };
+  }, [dataById, searchTerm, activeFilter, activeStyle, activeType, activeCategory]);
 
-  const stats = useMemo(() => ({
-    total: data.length,
-    english: data.filter(i => i.s === 'english').length,
-    spanish: data.filter(i => i.s === 'spanish').length,
-    styles: new Set(data.map(i => i.style)).size,
-    // Extract unique categories for filter
-    uniqueCategories: Array.from(new Set(data.map(i => i.mainCategory).filter(Boolean))).sort()
-  }), [data]);
+  const filteredData = searchResults.rows;
+
+  const handleRangeChange = useCallback((first: number, last: number) => {
+    setVisibleRange(prev => prev.first === first && prev.last === last ? prev : { first, last });
+  }, []);
+
+  const handleJump = (e: React.FormEvent) => {
+    e.preventDefault();
+    const position = parseInt(jumpTarget, 10);
+    if (!Number.isFinite(position) || filteredData.length === 0) return;
+    gridRef.current?.scrollToIndex(Math.min(Math.max(position, 1), filteredData.length) - 1);
+  };
+
+  // --- Client-side Exports ---
+
+  /** Exports exactly what the current search and filters show. */
+  const handleExport = (format: string, exporter: (rows: ShortcutData[]) => ExportResult) => {
+    if (filteredData.length === 0) {
+      showToast('Nothing to export - clear the filters first', 'info');
+      return;
+    }
+    try {
+      const result = exporter(filteredData);
+      if (result.exported > 0) downloadBlob(result.blob, result.filename);
+      if (result.rejected.length > 0 || result.warnings?.length) setExportReport({ format, result });
+      else showToast(`Exported ${result.exported} shortcut${result.exported === 1 ? '' : 's'} for ${format}`, 'success');
+    } catch (err: any) {
+      showToast(`${format} export failed: ${err.message || 'Unknown error'}`, 'error');
+    }
+  };
+
+
+  // --- Query Qualifiers <-> Dropdowns ---
+
+  /**
+   * `lang:`, `style:` and `cat:` drive the matching dropdowns. A qualifier that
+   * does not name a known option resets its dropdown and filters on its own.
+   */
+  const handleSearchChange = (value: string) => {
+    const before = parseQuery(searchTerm);
+    const after = parseQuery(value);
+    setSearchTerm(value);
+
+    const sync = (name: QualifierName, apply: (option: string) => void, resolve: (raw: string) => string | undefined) => {
+      const next = findQualifier(after, name);
+      if (next === findQualifier(before, name)) return;
+      apply(next === undefined ? 'all' : resolve(next) || 'all');
+    };
+    sync('lang', v => setActiveFilter(v as LanguageCategory), resolveLanguage);
+    sync('style', setActiveStyle, resolveStyle);
+    sync('cat', setActiveCategory, v => stats.uniqueCategories.find(c => c.toLowerCase() === v.toLowerCase()));
+  };
+
+  /** Picking from a dropdown rewrites the matching qualifier if the query already has one. */
+  const selectQualified = (name: QualifierName, apply: (option: string) => void) => (option: string) => {
+    apply(option);
+    if (findQualifier(parsedQuery, name) !== undefined) {
+      setSearchTerm(withQualifier(searchTerm, name, option === 'all' ? null : option));
+    }
+  };
+  const selectLanguage = selectQualified('lang', v => setActiveFilter(v as LanguageCategory));
+  const selectStyle = selectQualified('style', setActiveStyle);
+  const selectCategory = selectQualified('cat', setActiveCategory);
+
+  // Triggers with several expansions: position of each row within its trigger group
+  const variantInfo = useMemo(() => {
+    const groups = new Map<string, string[]>();
+    data.forEach(i => {
+      const ids = groups.get(i.k);
+      if (ids) ids.push(i.id!);
+      else groups.set(i.k, [i.id!]);
+    });
+    const info = new Map<string, { index: number, count: number }>();
+    groups.forEach(ids => {
+      if (ids.length > 1) ids.forEach((id, idx) => info.set(id, { index: idx + 1, count: ids.length }));
+    });
+    return info;
+  }, [data]);
 
   const filterOptions = [
     { value: 'all', label: '🌐 All Languages', count: stats.total },
@@ -902,12 +2101,68 @@ export default function TextExpansionManager() {
         onSave={handleSave}
         initialData={editingItem}
         isDeleting={handleDelete}
+        isKeyTaken={isKeyTaken}
       />
 
       <ImportModal 
         isOpen={isImportModalOpen}
         onClose={() => setIsImportModalOpen(false)}
-        onImport={handleImport}
+        existing={data}
+        onImport={rows => {
+          setIsImportModalOpen(false);
+          handleBulkAdd(rows);
+        }}
+      />
+
+      <StyleGenerator
+        isOpen={isStyleGeneratorOpen}
+        onClose={() => setIsStyleGeneratorOpen(false)}
+        onSaveAsShortcut={draft => {
+          setIsStyleGeneratorOpen(false);
+          setEditingItem(draft);
+          setIsEditModalOpen(true);
+        }}
+      />
+
+      <NumberTools
+        isOpen={isNumberToolsOpen}
+        onClose={() => setIsNumberToolsOpen(false)}
+        onSaveAsShortcut={draft => {
+          setIsNumberToolsOpen(false);
+          setEditingItem(draft);
+          setIsEditModalOpen(true);
+        }}
+        onGenerate={rows => {
+          setIsNumberToolsOpen(false);
+          handleBulkAdd(rows);
+        }}
+      />
+
+      <TemplateFillModal
+        target={fillTarget}
+        onClose={() => setFillTarget(null)}
+        onSubmit={handleFillSubmit}
+      />
+
+      <StyleReview
+        isOpen={isStyleReviewOpen}
+        onClose={() => setIsStyleReviewOpen(false)}
+        rows={styleReviewRows}
+        onApply={handleApplyDetectedStyles}
+      />
+
+      <ExportReportModal
+        report={exportReport}
+        onClose={() => setExportReport(null)}
+      />
+
+      <OutboxPanel
+        isOpen={isOutboxPanelOpen}
+        onClose={() => setIsOutboxPanelOpen(false)}
+        entries={outbox}
+        onRetry={handleRetryQueued}
+        onDiscard={handleDiscardQueued}
+        onRetryAll={handleRetryAllQueued}
       />
 
       <div className="fixed top-4 right-4 z-50 flex flex-col gap-2 pointer-events-none">
@@ -1077,6 +2332,31 @@ export default function TextExpansionManager() {
             )}
             <span className="text-slate-600 mx-2">|</span>
             <span className="text-white font-bold text-sm">{stats.total.toLocaleString()} shortcuts</span>
+            {isGasEnvironment && (backgroundSync !== 'idle' || cachedAt) && (
+              <>
+                <span className="text-slate-600 mx-2">|</span>
+                <SyncStatusBadge
+                  status={backgroundSync}
+                  progress={loadProgress.current}
+                  total={loadProgress.total}
+                  cachedAt={cachedAt}
+                  error={syncError}
+                  onRetry={handleRetrySync}
+                  onCancel={cancelSync}
+                />
+              </>
+            )}
+            {outbox.length > 0 && (
+              <>
+                <span className="text-slate-600 mx-2">|</span>
+                <button
+                  onClick={() => setIsOutboxPanelOpen(true)}
+                  className={`text-sm font-medium flex items-center gap-1 hover:underline ${outbox.some(e => e.status === 'failed') ? 'text-red-400' : 'text-amber-400'}`}
+                >
+                  <Clock size={14} /> {outbox.length} queued
+                </button>
+              </>
+            )}
           </div>
           
           <div className="flex gap-3">
@@ -1087,12 +2367,30 @@ export default function TextExpansionManager() {
               <Plus size={18} /> New Shortcut
             </button>
             <button 
-              onClick={() => startGasSync()}
-              disabled={loading}
+              onClick={() => setIsStyleGeneratorOpen(true)}
+              className="px-6 py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-full font-bold flex items-center gap-2 transition-all hover:scale-105"
+            >
+              <Wand size={18} /> Style Generator
+            </button>
+            <button 
+              onClick={() => setIsNumberToolsOpen(true)}
+              className="px-6 py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-full font-bold flex items-center gap-2 transition-all hover:scale-105"
+            >
+              <Hash size={18} /> Number Tools
+            </button>
+            <button 
+              onClick={() => setIsImportModalOpen(true)}
+              className="px-6 py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-full font-bold flex items-center gap-2 transition-all hover:scale-105"
+            >
+              <Upload size={18} /> Import
+            </button>
+            <button 
+              onClick={() => startGasSync({ background: data.length > 0 })}
+              disabled={loading || backgroundSync === 'syncing'}
               className="px-6 py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-full font-bold flex items-center gap-2 transition-all hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              <RefreshCw size={18} className={loading ? 'animate-spin' : ''} /> 
-              {loading ? 'Syncing...' : 'Sync Data'}
+              <RefreshCw size={18} className={loading || backgroundSync === 'syncing' ? 'animate-spin' : ''} /> 
+              {loading || backgroundSync === 'syncing' ? 'Syncing...' : 'Sync Data'}
             </button>
           </div>
         </header>
@@ -1105,14 +2403,15 @@ export default function TextExpansionManager() {
               <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-purple-300 group-focus-within:text-white transition-colors" size={20} />
               <input
                 type="text"
-                placeholder="🔍 Search shortcuts (e.g., '1126', 'omw', 'January')..."
+                placeholder="🔍 Search shortcuts (e.g., 'omw', 'tag:work', 'len:>20', '-draft')..."
+                title={'Qualifiers: lang:spanish style:fraktur cat:Greetings tag:work app:gboard fav:true has:newline len:>20\nPrefix with - to exclude, wrap phrases in "quotes"'}
                 value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                onChange={(e) => handleSearchChange(e.target.value)}
                 className="w-full pl-12 pr-12 py-4 bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl text-white placeholder-purple-300/50 focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-transparent transition-all hover:bg-white/10"
               />
               {searchTerm && (
                 <button 
-                  onClick={() => setSearchTerm('')}
+                  onClick={() => handleSearchChange('')}
                   className="absolute right-4 top-1/2 -translate-y-1/2 text-purple-300 hover:text-white transition-colors p-1 rounded-full hover:bg-white/10"
                 >
                   <X size={18} />
@@ -1143,7 +2442,7 @@ export default function TextExpansionManager() {
                       <button
                         key={option.value}
                         onClick={() => {
-                          setActiveFilter(option.value as LanguageCategory);
+                          selectLanguage(option.value);
                           setShowFilterDropdown(false);
                         }}
                         className={`w-full px-5 py-4 flex items-center justify-between hover:bg-white/10 transition-colors ${activeFilter === option.value ? 'bg-purple-500/20 text-purple-200' : 'text-slate-300'}`}
@@ -1178,7 +2477,7 @@ export default function TextExpansionManager() {
                     <div className="fixed inset-0 z-10" onClick={() => setShowCategoryDropdown(false)} />
                     <div className="absolute top-full right-0 mt-2 w-full md:w-64 bg-slate-800/95 backdrop-blur-xl border border-white/10 rounded-2xl overflow-hidden shadow-2xl z-20 animate-slide-in-down origin-top max-h-80 overflow-y-auto custom-scrollbar">
                       <button
-                        onClick={() => { setActiveCategory('all'); setShowCategoryDropdown(false); }}
+                        onClick={() => { selectCategory('all'); setShowCategoryDropdown(false); }}
                         className={`w-full px-5 py-3 flex items-center justify-between hover:bg-white/10 transition-colors ${activeCategory === 'all' ? 'bg-blue-500/20 text-blue-200' : 'text-slate-300'}`}
                       >
                         <span className="font-medium">All Categories</span>
@@ -1186,7 +2485,7 @@ export default function TextExpansionManager() {
                       {stats.uniqueCategories.map(cat => (
                         <button
                           key={cat}
-                          onClick={() => { setActiveCategory(cat as string); setShowCategoryDropdown(false); }}
+                          onClick={() => { selectCategory(cat as string); setShowCategoryDropdown(false); }}
                           className={`w-full px-5 py-3 flex items-center justify-between hover:bg-white/10 transition-colors ${activeCategory === cat ? 'bg-blue-500/20 text-blue-200' : 'text-slate-300'}`}
                         >
                           <span className="font-medium truncate">{cat}</span>
@@ -1253,7 +2552,7 @@ export default function TextExpansionManager() {
               Font Styles:
             </span>
             <button
-              onClick={() => setActiveStyle('all')}
+              onClick={() => selectStyle('all')}
               className={`px-4 py-2 rounded-xl text-sm font-medium transition-all whitespace-nowrap border ${
                 activeStyle === 'all' 
                   ? 'bg-purple-500 border-purple-400 text-white shadow-lg shadow-purple-500/20' 
@@ -1265,7 +2564,7 @@ export default function TextExpansionManager() {
             {Object.entries(LETTER_STYLES).map(([key, label]) => (
               <button
                 key={key}
-                onClick={() => setActiveStyle(key)}
+                onClick={() => selectStyle(key)}
                 className={`px-4 py-2 rounded-xl text-sm font-medium transition-all whitespace-nowrap border ${
                   activeStyle === key
                     ? 'bg-purple-500 border-purple-400 text-white shadow-lg shadow-purple-500/20'
@@ -1275,71 +2574,111 @@ export default function TextExpansionManager() {
                 {label.split('(')[0]}
               </button>
             ))}
+            {styleReviewRows.length > 0 && (
+              <button
+                onClick={() => setIsStyleReviewOpen(true)}
+                className="px-4 py-2 rounded-xl text-sm font-medium transition-all whitespace-nowrap border border-pink-400/30 bg-pink-500/10 text-pink-200 hover:bg-pink-500/20 flex items-center gap-1"
+                title="Review styles detected from the expansion text"
+              >
+                <Sparkles size={14} /> Review detected ({styleReviewRows.length})
+              </button>
+            )}
           </div>
         </div>
 
-        {/* Results Info & Pagination Controls */}
+        {/* Results Info & Jump Controls */}
         <div className="flex flex-col md:flex-row justify-between items-center mb-6 gap-4 bg-white/5 p-4 rounded-2xl border border-white/5">
           <p className="text-purple-200/70 text-sm">
-            Showing <span className="text-white font-bold">{paginatedData.length}</span> of <span className="text-white font-bold">{filteredData.length.toLocaleString()}</span> results
+            Showing <span className="text-white font-bold">{filteredData.length === 0 ? 0 : `${(visibleRange.first + 1).toLocaleString()}–${visibleRange.last.toLocaleString()}`}</span> of <span className="text-white font-bold">{filteredData.length.toLocaleString()}</span> results
             {activeFilter !== 'all' && ` in ${activeFilter}`}
             {activeType !== 'all' && ` (${TYPE_FILTERS[activeType].label})`}
             {activeCategory !== 'all' && ` in ${activeCategory}`}
           </p>
-          
-          {totalPages > 1 && (
-            <div className="flex items-center gap-2 bg-black/20 p-1 rounded-xl">
+
+          {filteredData.length > 0 && (
+            <div className="flex items-center gap-1 bg-black/20 p-1 rounded-xl text-sm">
+              <span className="pl-2 pr-1 text-purple-200/70 flex items-center gap-1"><Download size={14} /> Export</span>
               <button
-                onClick={() => setCurrentPage(1)}
-                disabled={currentPage === 1}
-                className="p-2 rounded-lg hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-                title="First Page"
+                onClick={() => handleExport('Gboard', exportGboard)}
+                className="px-3 py-2 rounded-lg hover:bg-white/10 font-medium transition-colors"
+                title="Gboard personal dictionary (.zip) of the shortcuts shown"
               >
-                <ChevronLeft size={16} className="mr-[-6px]" />
-                <ChevronLeft size={16} />
+                Gboard
               </button>
               <button
-                onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
-                disabled={currentPage === 1}
-                className="p-2 rounded-lg hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                onClick={() => handleExport('espanso', exportEspanso)}
+                className="px-3 py-2 rounded-lg hover:bg-white/10 font-medium transition-colors"
+                title="espanso match file (.yml) of the shortcuts shown"
               >
-                <ChevronLeft size={16} />
+                espanso
               </button>
-              
-              <span className="text-sm font-mono px-4 text-purple-200">
-                Page <span className="text-white font-bold">{currentPage}</span> / {totalPages}
-              </span>
-              
               <button
-                onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
-                disabled={currentPage === totalPages}
-                className="p-2 rounded-lg hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                onClick={() => handleExport('AutoHotkey', exportAutoHotkey)}
+                className="px-3 py-2 rounded-lg hover:bg-white/10 font-medium transition-colors"
+                title="AutoHotkey v2 hotstrings (.ahk) of the shortcuts shown"
               >
-                <ChevronRight size={16} />
+                AutoHotkey
               </button>
               <button
-                onClick={() => setCurrentPage(totalPages)}
-                disabled={currentPage === totalPages}
-                className="p-2 rounded-lg hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-                title="Last Page"
+                onClick={() => handleExport('Apple', exportApplePlist)}
+                className="px-3 py-2 rounded-lg hover:bg-white/10 font-medium transition-colors"
+                title="macOS / iOS text replacements (.plist) of the shortcuts shown"
               >
-                <ChevronRight size={16} className="mr-[-6px]" />
-                <ChevronRight size={16} />
+                Apple
               </button>
             </div>
           )}
+
+          {filteredData.length > 0 && (
+            <form onSubmit={handleJump} className="flex items-center gap-2 bg-black/20 p-1 rounded-xl">
+              <button
+                type="button"
+                onClick={() => gridRef.current?.scrollToIndex(0)}
+                className="p-2 rounded-lg hover:bg-white/10 transition-colors"
+                title="Jump to first"
+              >
+                <ArrowUpToLine size={16} />
+              </button>
+              <label className="text-sm font-mono pl-2 text-purple-200 flex items-center gap-2">
+                Go to #
+                <input
+                  type="number"
+                  min={1}
+                  max={filteredData.length}
+                  value={jumpTarget}
+                  onChange={e => setJumpTarget(e.target.value)}
+                  placeholder={String(visibleRange.first + 1)}
+                  className="w-20 bg-slate-900 border border-white/10 rounded-lg px-2 py-1 text-white focus:ring-2 focus:ring-purple-500 outline-none"
+                />
+              </label>
+              <button type="submit" className="px-3 py-2 rounded-lg hover:bg-white/10 text-sm font-medium transition-colors">Go</button>
+              <button
+                type="button"
+                onClick={() => gridRef.current?.scrollToIndex(filteredData.length - 1)}
+                className="p-2 rounded-lg hover:bg-white/10 transition-colors"
+                title="Jump to last"
+              >
+                <ArrowDownToLine size={16} />
+              </button>
+            </form>
+          )}
         </div>
 
         {/* Shortcuts Grid/List */}
-        <div className={viewMode === 'grid' 
-          ? "grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4" 
-          : "flex flex-col gap-3"
-        }>
-          {paginatedData.map((item, index) => (
+        <VirtualGrid
+          ref={gridRef}
+          items={filteredData}
+          getKey={getShortcutKey}
+          columns={viewMode === 'grid' ? gridColumns : listColumns}
+          gap={viewMode === 'grid' ? 16 : 12}
+          estimateHeight={estimateCardHeight}
+          scrollKey={searchResults.signature}
+          onRangeChange={handleRangeChange}
+          renderItem={item => (
             <div
-              key={`${item.k}-${index}`}
-              onClick={() => handleCopy(item.e, `${item.k}-${index}`)}
-              className={`group cursor-pointer bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-5 hover:bg-white/10 hover:border-purple-500/50 transition-all hover:shadow-lg hover:shadow-purple-500/10 hover:-translate-y-1 ${copiedId === `${item.k}-${index}` ? 'ring-2 ring-emerald-500 bg-emerald-500/10' : ''}`}
+              key={item.id}
+              onClick={() => handleCopy(item)}
+              className={`group cursor-pointer bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-5 hover:bg-white/10 hover:border-purple-500/50 transition-all hover:shadow-lg hover:shadow-purple-500/10 hover:-translate-y-1 ${variantInfo.has(item.id!) ? 'shadow-[5px_5px_0_-1px_rgba(168,85,247,0.25)]' : ''} ${copiedId === item.id ? 'ring-2 ring-emerald-500 bg-emerald-500/10' : ''}`}
             >
               <div className={viewMode === 'grid' ? 'h-full flex flex-col' : 'flex items-center gap-6'}>
                 {/* Header / Trigger */}
@@ -1356,31 +2695,53 @@ export default function TextExpansionManager() {
                       </button>
                     </span>
                     <span className="inline-flex items-center gap-2 px-3 py-1.5 bg-gradient-to-r from-purple-500/20 to-pink-500/20 border border-purple-500/30 rounded-lg text-sm font-mono font-bold text-purple-100 group-hover:border-purple-500/60 transition-colors">
-                      {item.k}
+                      <Highlight text={item.k} ranges={searchResults.highlights.get(item.id!)?.k} />
                     </span>
+                    {variantInfo.has(item.id!) && (
+                      <span
+                        className="inline-flex items-center gap-1 text-[10px] text-purple-300/70 font-medium"
+                        title={`"${item.k}" expands to ${variantInfo.get(item.id!)!.count} different texts`}
+                      >
+                        <Layers size={10} /> Variant {variantInfo.get(item.id!)!.index} of {variantInfo.get(item.id!)!.count}
+                      </span>
+                    )}
                   </div>
                   <div className="flex flex-col items-end gap-1">
                     <div className="flex items-center gap-1">
+                        {outboxStatusById.has(item.id!) && (
+                        <span
+                            className={`text-[10px] px-2 py-1 rounded border flex items-center gap-1 ${outboxStatusById.get(item.id!) === 'failed' ? 'bg-red-500/10 text-red-300 border-red-500/20' : 'bg-amber-500/10 text-amber-300 border-amber-500/20'}`}
+                            title={outboxStatusById.get(item.id!) === 'failed' ? 'Sync failed - open the queue to retry' : 'Waiting to sync'}
+                        >
+                            {outboxStatusById.get(item.id!) === 'failed' ? <AlertTriangle size={10} /> : <Clock size={10} />}
+                            {outboxStatusById.get(item.id!) === 'failed' ? 'Failed' : 'Pending'}
+                        </span>
+                        )}
                         <button 
                             onClick={(e) => handleToggleFavorite(e, item)}
                             className={`p-1 rounded-full transition-colors ${item.favorite ? 'text-yellow-400 hover:text-yellow-300' : 'text-slate-500 hover:text-slate-300'}`}
                         >
                             <Star size={14} fill={item.favorite ? "currentColor" : "none"} />
                         </button>
-                        {item.style && viewMode === 'grid' && (
-                        <span className="text-[10px] px-2 py-1 rounded bg-white/5 text-purple-200/60 border border-white/5">
-                            {LETTER_STYLES[item.style]?.split(' ')[0] || 'Art'}
+                        {viewMode === 'grid' && styleKeys(item).length > 0 && (
+                        <span
+                            className={`text-[10px] px-2 py-1 rounded bg-white/5 text-purple-200/60 border border-white/5 ${item.style ? '' : 'italic'}`}
+                            title={`${styleKeys(item).map(key => LETTER_STYLES[key] || key).join(', ')}${item.style ? '' : ' (detected)'}`}
+                        >
+                            {styleBadge(styleKeys(item))}
                         </span>
                         )}
                     </div>
                     {/* Show Main Category if available, else inference */}
                     {item.mainCategory ? (
                       <span className="text-[10px] px-2 py-1 rounded bg-blue-500/10 text-blue-300 border border-blue-500/20 capitalize">
-                        {item.mainCategory}
+                        <Highlight text={item.mainCategory} ranges={searchResults.highlights.get(item.id!)?.mainCategory} />
                       </span>
                     ) : (item.d || inferDescription(item) !== 'general') && viewMode === 'grid' && (
                       <span className="text-[10px] px-2 py-1 rounded bg-blue-500/10 text-blue-300 border border-blue-500/20 capitalize">
-                        {item.d || inferDescription(item)}
+                        {item.d
+                          ? <Highlight text={item.d} ranges={searchResults.highlights.get(item.id!)?.d} />
+                          : inferDescription(item)}
                       </span>
                     )}
                   </div>
@@ -1388,13 +2749,23 @@ export default function TextExpansionManager() {
 
                 {/* Expansion Content */}
                 <div className={`flex-1 bg-black/20 rounded-xl p-3 border border-white/5 group-hover:border-white/10 transition-colors ${viewMode === 'grid' ? 'min-h-[80px]' : 'w-full'}`}>
-                  {item.e.includes('\n') ? (
+                  {hasPlaceholders(item.e) ? (
+                    <>
+                      {/* Templates show what a copy would produce now, with the raw template underneath */}
+                      <p className={item.e.includes('\n') ? 'font-mono text-xs text-emerald-300 whitespace-pre-wrap leading-relaxed' : 'text-white/90 text-lg font-medium break-all leading-snug'}>
+                        {resolvePlaceholders(item.e, { now: previewNow, locale: placeholderLocale(item.s) })}
+                      </p>
+                      <p className="mt-2 pt-2 border-t border-white/5 font-mono text-[11px] text-purple-300/50 break-all whitespace-pre-wrap" title="Template - filled in when copied">
+                        <Highlight text={item.e} ranges={searchResults.highlights.get(item.id!)?.e} />
+                      </p>
+                    </>
+                  ) : item.e.includes('\n') ? (
                     <pre className="font-mono text-xs text-emerald-300 whitespace-pre overflow-x-auto custom-scrollbar leading-relaxed">
-                      {item.e}
+                      <Highlight text={item.e} ranges={searchResults.highlights.get(item.id!)?.e} />
                     </pre>
                   ) : (
                     <p className="text-white/90 text-lg font-medium break-all leading-snug">
-                      {item.e}
+                      <Highlight text={item.e} ranges={searchResults.highlights.get(item.id!)?.e} />
                     </p>
                   )}
                 </div>
@@ -1409,8 +2780,8 @@ export default function TextExpansionManager() {
                     {item.s === 'english' ? '🇺🇸 ENG' : item.s === 'spanish' ? '🇪🇸 ESP' : '🌐 ALL'}
                   </span>
                   
-                  <div className={`flex items-center gap-2 transition-colors ${copiedId === `${item.k}-${index}` ? 'text-emerald-400' : 'text-purple-300/50 group-hover:text-purple-300'}`}>
-                    {copiedId === `${item.k}-${index}` ? (
+                  <div className={`flex items-center gap-2 transition-colors ${copiedId === item.id ? 'text-emerald-400' : 'text-purple-300/50 group-hover:text-purple-300'}`}>
+                    {copiedId === item.id ? (
                       <>
                         <Check size={16} />
                         <span className="text-xs font-bold">Copied!</span>
@@ -1425,11 +2796,11 @@ export default function TextExpansionManager() {
                 </div>
               </div>
             </div>
-          ))}
-        </div>
+          )}
+        />
 
         {/* Empty State */}
-        {filteredData.length === 0 && (
+        {filteredData.length === 0 && !searchPending && (
           <div className="text-center py-32 bg-white/5 backdrop-blur-sm rounded-3xl border border-white/10">
             <div className="inline-block p-6 bg-slate-800 rounded-full mb-6 shadow-xl">
               <LayoutTemplate size={48} className="text-purple-400" />
@@ -1445,7 +2816,6 @@ export default function TextExpansionManager() {
                 setActiveStyle('all');
                 setActiveType('all');
                 setActiveCategory('all');
-                setCurrentPage(1);
               }}
               className="px-8 py-3 bg-white text-slate-900 font-bold rounded-xl hover:bg-purple-50 transition-colors shadow-lg shadow-white/10"
             >
@@ -0,0 +1,201 @@
+import React, { useState, useMemo } from 'react';
+import { X, Copy, Check, Plus, Hash, Layers } from 'lucide-react';
+import { LanguageCategory, ShortcutData } from './types';
+import { DigitStyle, DIGIT_STYLE_LABELS, formatNumber, generateRange, parseInteger, styleDigits, MAX_RANGE_ROWS } from './numberFormat';
+import { formatDate, placeholderLocale } from './placeholders';
+
+// --- COMPONENT: Number Tools ---
+
+const DIGIT_STYLES = Object.keys(DIGIT_STYLE_LABELS) as DigitStyle[];
+
+const inputClass = 'w-full bg-slate-900 border border-white/10 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 outline-none';
+
+/** Today as yyyy-mm-dd for the date input. */
+const todayValue = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Formats a number or a date in every digit style, and generates one
+ * shortcut per number for a whole range. The same digit styles are available
+ * to placeholders as `{day|keycap}`, `{year|circled}` and so on.
+ */
+export const NumberTools = ({
+  isOpen,
+  onClose,
+  onSaveAsShortcut,
+  onGenerate
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaveAsShortcut: (draft: Partial<ShortcutData>) => void;
+  onGenerate: (rows: ShortcutData[]) => void;
+}) => {
+  const [mode, setMode] = useState<'number' | 'date'>('number');
+  const [input, setInput] = useState('1000');
+  const [date, setDate] = useState(todayValue);
+  const [dateFormat, setDateFormat] = useState('MM/DD/YYYY');
+  const [group, setGroup] = useState(true);
+  const [ordinal, setOrdinal] = useState(false);
+  const [language, setLanguage] = useState<LanguageCategory>('all');
+  const [copiedStyle, setCopiedStyle] = useState<string | null>(null);
+
+  const [rangeFrom, setRangeFrom] = useState('1');
+  const [rangeTo, setRangeTo] = useState('31');
+  const [triggerPattern, setTriggerPattern] = useState('n{n}');
+  const [rangeStyle, setRangeStyle] = useState<DigitStyle>('keycap');
+
+  const value = parseInteger(input);
+
+  const previews = useMemo(() => DIGIT_STYLES.map(style => {
+    if (mode === 'date') {
+      const [year, month, day] = date.split('-').map(Number);
+      const output = year ? styleDigits(formatDate(new Date(year, month - 1, day), dateFormat, placeholderLocale(language)), style) : '';
+      return { style, output };
+    }
+    return { style, output: value === null ? '' : formatNumber(value, { style, group, ordinal, language }) };
+  }), [mode, value, date, dateFormat, group, ordinal, language]);
+
+  const from = parseInteger(rangeFrom);
+  const to = parseInteger(rangeTo);
+  const rangeSize = from !== null && to !== null ? Math.abs(to - from) + 1 : 0;
+  const rangeRows = useMemo(
+    () => from !== null && to !== null && triggerPattern.includes('{n}')
+      ? generateRange(from, to, triggerPattern, { style: rangeStyle, group, ordinal, language })
+      : [],
+    [from, to, triggerPattern, rangeStyle, group, ordinal, language]
+  );
+
+  const handleCopy = async (style: string, output: string) => {
+    try {
+      await navigator.clipboard.writeText(output);
+      setCopiedStyle(style);
+      setTimeout(() => setCopiedStyle(current => current === style ? null : current), 2000);
+    } catch (err) {
+      console.error('Copy failed', err);
+    }
+  };
+
+  const handleGenerate = () => {
+    onGenerate(rangeRows.map(row => ({ ...row, s: language, d: 'number', tags: '' })));
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-slate-800 w-full max-w-4xl max-h-[90vh] rounded-2xl shadow-2xl border border-white/10 overflow-hidden flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-white/10 flex justify-between items-center bg-slate-800/50">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <Hash size={20} className="text-pink-400" /> Number Tools
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors"><X size={20} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+          {/* Input & Options */}
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                {(['number', 'date'] as const).map(m => (
+                  <button
+                    key={m}
+                    onClick={() => setMode(m)}
+                    className={`flex-1 py-1.5 rounded-lg text-sm font-medium transition-colors ${mode === m ? 'bg-purple-500 text-white' : 'bg-white/5 text-slate-400 hover:bg-white/10'}`}
+                  >
+                    {m === 'number' ? 'Number' : 'Date'}
+                  </button>
+                ))}
+              </div>
+              {mode === 'number' ? (
+                <input value={input} onChange={e => setInput(e.target.value)} className={inputClass} placeholder="e.g. 1000" autoFocus />
+              ) : (
+                <div className="flex gap-2">
+                  <input type="date" value={date} onChange={e => setDate(e.target.value)} className={inputClass} />
+                  <input value={dateFormat} onChange={e => setDateFormat(e.target.value)} className={`${inputClass} font-mono`} title="YYYY MM DD, MMMM for the month name, [text] for literal text" />
+                </div>
+              )}
+              {mode === 'number' && value === null && input.trim() && <p className="text-xs text-red-400">Whole numbers only</p>}
+            </div>
+
+            <div className="space-y-2 text-sm text-slate-300">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={group} onChange={e => setGroup(e.target.checked)} className="accent-purple-500" /> Thousands separators
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={ordinal} onChange={e => setOrdinal(e.target.checked)} className="accent-purple-500" /> Ordinal suffix (ˢᵗ ⁿᵈ ʳᵈ ᵗʰ)
+              </label>
+              <select value={language} onChange={e => setLanguage(e.target.value as LanguageCategory)} className={inputClass}>
+                <option value="all">All Languages</option>
+                <option value="english">English</option>
+                <option value="spanish">Spanish (ᵒ, Spanish month names)</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Previews */}
+          <div className="space-y-2">
+            {previews.map(({ style, output }) => (
+              <div key={style} className="flex items-center gap-4 p-3 rounded-xl bg-white/5 border border-white/5 hover:border-purple-500/40 transition-colors">
+                <div className="flex-1 min-w-0">
+                  <div className="text-[10px] text-purple-300/60 uppercase tracking-wider mb-1">{DIGIT_STYLE_LABELS[style]}</div>
+                  <div className="text-lg text-white break-all">{output || <span className="text-slate-600">—</span>}</div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => handleCopy(style, output)}
+                    disabled={!output}
+                    className={`p-2 rounded-lg transition-colors disabled:opacity-30 ${copiedStyle === style ? 'text-emerald-400' : 'text-slate-400 hover:text-white hover:bg-white/10'}`}
+                    title="Copy"
+                  >
+                    {copiedStyle === style ? <Check size={16} /> : <Copy size={16} />}
+                  </button>
+                  <button
+                    onClick={() => onSaveAsShortcut({ k: mode === 'number' ? input.trim() : '', e: output, s: language, d: mode, tags: '' })}
+                    disabled={!output}
+                    className="px-3 py-2 rounded-lg text-xs font-bold bg-purple-500/20 text-purple-200 hover:bg-purple-500/40 transition-colors flex items-center gap-1 disabled:opacity-30"
+                    title="Save as shortcut"
+                  >
+                    <Plus size={14} /> Save
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Range Generator */}
+          <div className="p-4 rounded-xl border border-white/10 bg-slate-900/40 space-y-3">
+            <div className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1">
+              <Layers size={12} /> Generate a Range
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <input value={rangeFrom} onChange={e => setRangeFrom(e.target.value)} className={inputClass} placeholder="From" />
+              <input value={rangeTo} onChange={e => setRangeTo(e.target.value)} className={inputClass} placeholder="To" />
+              <input value={triggerPattern} onChange={e => setTriggerPattern(e.target.value)} className={`${inputClass} font-mono`} placeholder="Trigger, e.g. n{n}" title="{n} is replaced with each number" />
+              <select value={rangeStyle} onChange={e => setRangeStyle(e.target.value as DigitStyle)} className={inputClass}>
+                {DIGIT_STYLES.map(style => <option key={style} value={style}>{DIGIT_STYLE_LABELS[style]}</option>)}
+              </select>
+            </div>
+            {!triggerPattern.includes('{n}') && <p className="text-xs text-red-400">The trigger needs {'{n}'} so every row gets its own trigger</p>}
+            {rangeSize > MAX_RANGE_ROWS && <p className="text-xs text-amber-400">Only the first {MAX_RANGE_ROWS} numbers are generated</p>}
+            {rangeRows.length > 0 && (
+              <p className="text-xs text-slate-400 break-all">
+                {rangeRows.slice(0, 4).map(row => `${row.k} → ${row.e}`).join('   ')}{rangeRows.length > 4 ? '   …' : ''}
+              </p>
+            )}
+            <div className="flex justify-end">
+              <button
+                onClick={handleGenerate}
+                disabled={rangeRows.length === 0}
+                className="px-4 py-2 bg-purple-500 hover:bg-purple-600 text-white rounded-lg font-bold shadow-lg shadow-purple-500/20 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Plus size={16} /> Add {rangeRows.length} shortcut{rangeRows.length === 1 ? '' : 's'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
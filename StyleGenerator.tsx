@@ -0,0 +1,96 @@
+import React, { useState, useMemo } from 'react';
+import { X, Copy, Check, Plus, Wand } from 'lucide-react';
+import { ShortcutData } from './types';
+import { transformAll } from './styleTransformer';
+
+// --- COMPONENT: Style Generator ---
+
+/**
+ * Live preview of one input rendered in every letter style, side by side
+ * with the input. "Save as shortcut" hands the output to the edit modal with
+ * its style already filled in.
+ */
+export const StyleGenerator = ({
+  isOpen,
+  onClose,
+  onSaveAsShortcut
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaveAsShortcut: (draft: Partial<ShortcutData>) => void;
+}) => {
+  const [input, setInput] = useState('Hello World');
+  const [copiedStyle, setCopiedStyle] = useState<string | null>(null);
+
+  const previews = useMemo(() => transformAll(input), [input]);
+
+  const handleCopy = async (style: string, output: string) => {
+    try {
+      await navigator.clipboard.writeText(output);
+      setCopiedStyle(style);
+      setTimeout(() => setCopiedStyle(current => current === style ? null : current), 2000);
+    } catch (err) {
+      console.error('Copy failed', err);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-slate-800 w-full max-w-5xl max-h-[90vh] rounded-2xl shadow-2xl border border-white/10 overflow-hidden flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-white/10 flex justify-between items-center bg-slate-800/50">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <Wand size={20} className="text-pink-400" /> Style Generator
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors"><X size={20} /></button>
+        </div>
+
+        <div className="flex flex-col md:flex-row flex-1 min-h-0">
+          {/* Input */}
+          <div className="md:w-1/3 p-6 border-b md:border-b-0 md:border-r border-white/10 flex flex-col gap-2">
+            <label className="block text-xs font-medium text-slate-400 uppercase">Plain Text</label>
+            <textarea
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              autoFocus
+              className="w-full flex-1 min-h-[120px] bg-slate-900 border border-white/10 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-purple-500 outline-none custom-scrollbar"
+              placeholder="Type something..."
+            />
+            <p className="text-xs text-slate-500">Letters and digits are converted; characters a style has no glyph for are kept as typed.</p>
+          </div>
+
+          {/* Previews */}
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+            {previews.map(({ style, label, output }) => (
+              <div key={style} className="group flex items-center gap-4 p-3 rounded-xl bg-white/5 border border-white/5 hover:border-purple-500/40 transition-colors">
+                <div className="flex-1 min-w-0">
+                  <div className="text-[10px] text-purple-300/60 uppercase tracking-wider mb-1">{label}</div>
+                  <div className="text-lg text-white break-all whitespace-pre-wrap">{output || <span className="text-slate-600">—</span>}</div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => handleCopy(style, output)}
+                    disabled={!output}
+                    className={`p-2 rounded-lg transition-colors disabled:opacity-30 ${copiedStyle === style ? 'text-emerald-400' : 'text-slate-400 hover:text-white hover:bg-white/10'}`}
+                    title="Copy"
+                  >
+                    {copiedStyle === style ? <Check size={16} /> : <Copy size={16} />}
+                  </button>
+                  <button
+                    onClick={() => onSaveAsShortcut({ k: '', e: output, s: 'all', d: '', tags: '', style })}
+                    disabled={!output}
+                    className="px-3 py-2 rounded-lg text-xs font-bold bg-purple-500/20 text-purple-200 hover:bg-purple-500/40 transition-colors flex items-center gap-1 disabled:opacity-30"
+                    title="Save as shortcut"
+                  >
+                    <Plus size={14} /> Save
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
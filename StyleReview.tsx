@@ -0,0 +1,129 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Check, Sparkles, RefreshCw } from 'lucide-react';
+import { ShortcutData } from './types';
+import { LETTER_STYLES } from './data';
+
+// --- CONFIG ---
+
+const MAX_LISTED = 500; // Rows rendered at once; the selection still covers every row
+
+const styleNames = (value?: string) =>
+  (value || '').split(',').filter(Boolean).map(key => LETTER_STYLES[key]?.split(' (')[0] || key).join(', ');
+
+// --- COMPONENT: Style Review ---
+
+/**
+ * Lists rows that have no stored style but whose text reads as one, and
+ * writes the checked ones back. Styles already stored were picked by hand
+ * and never show up here.
+ */
+export const StyleReview = ({
+  isOpen,
+  onClose,
+  rows,
+  onApply
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  rows: ShortcutData[];
+  onApply: (rows: ShortcutData[]) => Promise<void>;
+}) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [applying, setApplying] = useState(false);
+
+  // Start from a fresh selection every time the screen opens
+  useEffect(() => {
+    if (isOpen) setSelected(new Set(rows.map(row => row.id!)));
+  }, [isOpen]);
+
+  const chosen = useMemo(() => rows.filter(row => selected.has(row.id!)), [rows, selected]);
+
+  const toggle = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const toggleAll = () => setSelected(chosen.length === rows.length ? new Set() : new Set(rows.map(row => row.id!)));
+
+  const handleApply = async () => {
+    setApplying(true);
+    try {
+      await onApply(chosen);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-slate-800 w-full max-w-4xl max-h-[90vh] rounded-2xl shadow-2xl border border-white/10 overflow-hidden flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-white/10 flex justify-between items-center bg-slate-800/50">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <Sparkles size={20} className="text-pink-400" /> Detected Styles
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors"><X size={20} /></button>
+        </div>
+
+        {rows.length === 0 ? (
+          <div className="p-12 text-center text-slate-400">Every shortcut written in a letter style already has one.</div>
+        ) : (
+          <>
+            <div className="px-6 py-3 border-b border-white/10 flex items-center justify-between text-sm">
+              <label className="flex items-center gap-2 text-slate-300 cursor-pointer">
+                <input type="checkbox" checked={chosen.length === rows.length} onChange={toggleAll} className="accent-purple-500" />
+                Select all ({rows.length})
+              </label>
+              <span className="text-slate-500">{chosen.length} selected</span>
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-slate-800 text-left text-xs text-slate-400 uppercase">
+                  <tr>
+                    <th className="px-6 py-2 w-10"></th>
+                    <th className="px-2 py-2">Trigger</th>
+                    <th className="px-2 py-2">Expansion</th>
+                    <th className="px-2 py-2">Detected</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.slice(0, MAX_LISTED).map(row => (
+                    <tr key={row.id} onClick={() => toggle(row.id!)} className="border-t border-white/5 hover:bg-white/5 cursor-pointer">
+                      <td className="px-6 py-2">
+                        <input type="checkbox" checked={selected.has(row.id!)} readOnly className="accent-purple-500 pointer-events-none" />
+                      </td>
+                      <td className="px-2 py-2 font-mono text-purple-200 whitespace-nowrap">{row.k}</td>
+                      <td className="px-2 py-2 text-white max-w-[260px] truncate">{row.e}</td>
+                      <td className="px-2 py-2 text-emerald-300">{styleNames(row.detectedStyle)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {rows.length > MAX_LISTED && (
+                <p className="px-6 py-3 text-xs text-slate-500">
+                  Showing the first {MAX_LISTED} of {rows.length}. Select all applies to every row.
+                </p>
+              )}
+            </div>
+          </>
+        )}
+
+        <div className="p-6 border-t border-white/10 flex justify-end gap-3 bg-slate-800/50">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-slate-300 hover:text-white hover:bg-white/5 transition-colors">Close</button>
+          <button
+            onClick={handleApply}
+            disabled={chosen.length === 0 || applying}
+            className="px-6 py-2 bg-purple-500 hover:bg-purple-600 text-white rounded-lg font-bold shadow-lg shadow-purple-500/20 transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {applying ? <RefreshCw size={18} className="animate-spin" /> : <Check size={18} />}
+            Apply to {chosen.length}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,243 @@
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef, useImperativeHandle, useCallback } from 'react';
+
+// --- TYPES ---
+
+export interface VirtualGridHandle {
+  /** Scrolls the window so the item at `index` sits at the top of the viewport. */
+  scrollToIndex: (index: number, offset?: number) => void;
+}
+
+interface VirtualGridProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  /** Guess for rows that have not been measured yet. */
+  estimateHeight: (item: T, columns: number) => number;
+  /** Column count for a given window width; 1 renders a list. */
+  columns: (windowWidth: number) => number;
+  gap: number;
+  /** Scroll positions are remembered per key and restored when the key comes back. */
+  scrollKey: string;
+  onRangeChange?: (first: number, last: number) => void;
+  ref?: React.Ref<VirtualGridHandle>;
+}
+
+/** Where the viewport was, as the first visible item plus how far into its row. */
+interface ScrollAnchor {
+  index: number;
+  offset: number;
+}
+
+// --- CONFIG ---
+
+const OVERSCAN_PX = 800; // Rendered above and below the viewport so fast scrolling does not flash blank
+
+/** Frames spent re-aiming a jump while freshly rendered rows replace their estimates. */
+const JUMP_SETTLE_FRAMES = 3;
+
+/** Scroll positions remembered; the least recently used result set is forgotten first. */
+const MAX_ANCHORS = 50;
+
+/** Index of the row containing offset `y`, by binary search over the row offsets. */
+const rowAtOffset = (offsets: number[], rowCount: number, y: number) => {
+  let lo = 0;
+  let hi = rowCount - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (offsets[mid] <= y) lo = mid;
+    else hi = mid - 1;
+  }
+  return Math.max(0, lo);
+};
+
+// --- COMPONENT ---
+
+/**
+ * Window-scrolled virtual grid. Only rows near the viewport are mounted; each
+ * mounted row is measured with a ResizeObserver, so cards of any height (e.g.
+ * multiline ASCII art) keep the offsets of the rows below them accurate.
+ */
+export const VirtualGrid = <T,>({
+  items,
+  getKey,
+  renderItem,
+  estimateHeight,
+  columns: columnsFor,
+  gap,
+  scrollKey,
+  onRangeChange,
+  ref,
+}: VirtualGridProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<string, number>()); // Measured row heights by row key
+  const anchors = useRef(new Map<string, ScrollAnchor>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [windowWidth, setWindowWidth] = useState(window.innerWidth);
+  const columns = columnsFor(windowWidth); // Derived, so switching grid and list takes effect at once
+  const [viewport, setViewport] = useState({ top: 0, height: window.innerHeight });
+
+  // --- Layout ---
+
+  const rows = useMemo(() => {
+    const grouped: Array<{ key: string; start: number; items: T[] }> = [];
+    for (let start = 0; start < items.length; start += columns) {
+      const rowItems = items.slice(start, start + columns);
+      grouped.push({ key: rowItems.map(getKey).join('|'), start, items: rowItems });
+    }
+    return grouped;
+  }, [items, columns, getKey]);
+
+  const offsets = useMemo(() => {
+    const result = new Array<number>(rows.length + 1);
+    result[0] = 0;
+    rows.forEach((row, idx) => {
+      const height = heights.current.get(row.key) ?? Math.max(...row.items.map(item => estimateHeight(item, columns)));
+      result[idx + 1] = result[idx] + height + gap;
+    });
+    return result;
+    // measureVersion invalidates the memo whenever a mounted row reports a new height
+  }, [rows, columns, gap, estimateHeight, measureVersion]);
+
+  const totalHeight = Math.max(0, offsets[rows.length] - gap);
+
+  const rowAt = useCallback((y: number) => rowAtOffset(offsets, rows.length, y), [rows.length, offsets]);
+
+  const firstRow = rowAt(viewport.top - OVERSCAN_PX);
+  const lastRow = rowAt(viewport.top + viewport.height + OVERSCAN_PX);
+
+  // --- Measuring ---
+
+  const observer = useMemo(() => new ResizeObserver(entries => {
+    let changed = false;
+    entries.forEach(entry => {
+      const key = (entry.target as HTMLElement).dataset.rowKey!;
+      const height = entry.borderBoxSize?.[0]?.blockSize ?? entry.target.getBoundingClientRect().height;
+      if (Math.abs((heights.current.get(key) ?? -1) - height) > 0.5) {
+        heights.current.set(key, height);
+        changed = true;
+      }
+    });
+    if (changed) setMeasureVersion(v => v + 1);
+  }), []);
+
+  useEffect(() => () => observer.disconnect(), [observer]);
+
+  // Row keys change with every filter, resize and column count; keep only the rows laid out now
+  useEffect(() => {
+    const current = new Set(rows.map(row => row.key));
+    heights.current.forEach((_, key) => { if (!current.has(key)) heights.current.delete(key); });
+  }, [rows]);
+
+  const observeRow = useCallback((el: HTMLDivElement | null) => {
+    if (!el) return;
+    observer.observe(el);
+    return () => observer.unobserve(el);
+  }, [observer]);
+
+  // --- Scrolling ---
+
+  const containerTop = () => (containerRef.current?.getBoundingClientRect().top ?? 0) + window.scrollY;
+
+  const latest = useRef({ offsets, rows, columns, scrollKey });
+  latest.current = { offsets, rows, columns, scrollKey };
+
+  const aimAt = (anchor: ScrollAnchor) => {
+    const { offsets: rowOffsets, columns: cols } = latest.current;
+    const row = Math.min(Math.floor(anchor.index / cols), Math.max(0, rowOffsets.length - 2));
+    window.scrollTo({ top: containerTop() + rowOffsets[row] + anchor.offset });
+  };
+
+  const jumpTo = (anchor: ScrollAnchor) => {
+    aimAt(anchor);
+    let frames = JUMP_SETTLE_FRAMES;
+    const settle = () => {
+      aimAt(anchor);
+      if (--frames > 0) requestAnimationFrame(settle);
+    };
+    requestAnimationFrame(settle);
+  };
+
+  useImperativeHandle(ref, () => ({
+    scrollToIndex: (index, offset = 0) => jumpTo({ index, offset }),
+  }), []);
+
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const top = window.scrollY - containerTop();
+      setViewport({ top, height: window.innerHeight });
+
+      // Remember where this result set was scrolled to
+      const { offsets: rowOffsets, rows: currentRows, columns: cols, scrollKey: key } = latest.current;
+      if (currentRows.length === 0) return;
+      const row = rowAtOffset(rowOffsets, currentRows.length, top);
+      anchors.current.delete(key); // Re-inserted so Map order tracks recent use
+      anchors.current.set(key, top > 0 ? { index: row * cols, offset: top - rowOffsets[row] } : { index: 0, offset: 0 });
+      if (anchors.current.size > MAX_ANCHORS) anchors.current.delete(anchors.current.keys().next().value!);
+    };
+    const onScroll = () => { if (!frame) frame = requestAnimationFrame(update); };
+    const onResize = () => {
+      setWindowWidth(window.innerWidth);
+      onScroll();
+    };
+
+    update();
+    window.addEventListener('scroll', onScroll, { passive: true });
+    window.addEventListener('resize', onResize);
+    return () => {
+      if (frame) cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', onScroll);
+      window.removeEventListener('resize', onResize);
+    };
+  }, []);
+
+  // When the result set changes, return to where it was last time, or to its top
+  const previousKey = useRef(scrollKey);
+  useLayoutEffect(() => {
+    if (previousKey.current === scrollKey) return;
+    previousKey.current = scrollKey;
+
+    const saved = anchors.current.get(scrollKey);
+    if (saved && saved.index > 0) {
+      jumpTo(saved);
+    } else if (window.scrollY > containerTop()) {
+      window.scrollTo({ top: containerTop() });
+    }
+  }, [scrollKey]);
+
+  useEffect(() => {
+    if (!onRangeChange) return;
+    if (items.length === 0) {
+      onRangeChange(0, 0);
+      return;
+    }
+    const top = rowAt(Math.max(0, viewport.top));
+    const bottom = rowAt(viewport.top + viewport.height);
+    onRangeChange(rows[top].start, Math.min(items.length, rows[bottom].start + rows[bottom].items.length));
+  }, [rows, viewport, rowAt, onRangeChange, items.length]);
+
+  // --- Render ---
+
+  return (
+    <div ref={containerRef} className="relative" style={{ height: totalHeight }}>
+      {rows.slice(firstRow, lastRow + 1).map((row, idx) => (
+        <div
+          key={row.key}
+          ref={observeRow}
+          data-row-key={row.key}
+          className={columns > 1 ? 'absolute inset-x-0 grid' : 'absolute inset-x-0 flex flex-col'}
+          style={{
+            transform: `translateY(${offsets[firstRow + idx]}px)`,
+            gap,
+            gridTemplateColumns: columns > 1 ? `repeat(${columns}, minmax(0, 1fr))` : undefined,
+          }}
+        >
+          {row.items.map((item, col) => (
+            <React.Fragment key={getKey(item)}>{renderItem(item, row.start + col)}</React.Fragment>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import { ShortcutData } from './types';
+import { ExportRejection, ExportResult, ImportParseResult, ImportSkip, templateRejection } from './fileFormat';
+
+// --- APPLE TEXT REPLACEMENTS ---
+
+/**
+ * macOS and iOS keep text replacements as an XML property list: an array of
+ * dicts with `phrase` and `shortcut` strings. Selecting the replacements in
+ * System Settings › Keyboard › Text Replacements and dragging them to the
+ * desktop writes `Text Substitutions.plist`; dragging that file back in
+ * imports it (and iCloud syncs it to the iPhone).
+ */
+export const APPLE_PLIST_FILE = 'Text Substitutions.plist';
+
+const PLIST_HEADER = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+  '<plist version="1.0">',
+].join('\n');
+
+// XML 1.0 cannot hold most control characters, not even escaped
+const XML_INVALID = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/;
+
+/** Why Apple would refuse a row, or null when it can be exported. */
+export const appleRejection = (item: ShortcutData): string | null => {
+  if (!item.k.trim()) return 'Shortcut is empty';
+  if (/\s/.test(item.k)) return 'Shortcut contains spaces';
+  if (!item.e.trim()) return 'Phrase is empty';
+  if (XML_INVALID.test(item.k) || XML_INVALID.test(item.e)) return 'Contains control characters a plist cannot hold';
+  return templateRejection(item);
+};
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const exportApplePlist = (rows: ShortcutData[]): ExportResult => {
+  const entries: string[] = [];
+  const rejected: ExportRejection[] = [];
+  rows.forEach(item => {
+    const reason = appleRejection(item);
+    if (reason) return rejected.push({ item, reason });
+    entries.push([
+      '\t<dict>',
+      '\t\t<key>phrase</key>',
+      `\t\t<string>${escapeXml(item.e)}</string>`,
+      '\t\t<key>shortcut</key>',
+      `\t\t<string>${escapeXml(item.k)}</string>`,
+      '\t</dict>',
+    ].join('\n'));
+  });
+  const xml = [PLIST_HEADER, '<array>', ...entries, '</array>', '</plist>', ''].join('\n');
+  return {
+    filename: APPLE_PLIST_FILE,
+    blob: new Blob([xml], { type: 'application/x-plist' }),
+    exported: entries.length,
+    rejected,
+  };
+};
+
+// --- IMPORT ---
+
+/** The `<key>` → value-element pairs of a plist `<dict>`. */
+const dictEntries = (dict: Element): Map<string, Element> => {
+  const entries = new Map<string, Element>();
+  const children = Array.from(dict.children);
+  for (let i = 0; i < children.length - 1; i++) {
+    if (children[i].tagName === 'key') entries.set(children[i].textContent || '', children[++i]);
+  }
+  return entries;
+};
+
+const stringValue = (element: Element | undefined) =>
+  element && element.tagName === 'string' ? element.textContent || '' : '';
+
+/** Reads an XML plist of phrase/shortcut dicts. */
+export const parseApplePlist = (text: string): ImportParseResult => {
+  const doc = new DOMParser().parseFromString(text.replace(/^\uFEFF/, ''), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('Not valid XML - is this a plist file?');
+  const root = doc.documentElement;
+  const array = root.tagName === 'plist' ? root.firstElementChild : root;
+  if (!array || array.tagName !== 'array') throw new Error('Expected a list of text replacements in this plist');
+
+  const rows: ShortcutData[] = [];
+  const skipped: ImportSkip[] = [];
+  const seen = new Map<string, number>(); // Shortcut → entry it was first used in
+
+  Array.from(array.children).forEach((dict, idx) => {
+    const location = `Entry ${idx + 1}`;
+    if (dict.tagName !== 'dict') {
+      skipped.push({ location, text: dict.textContent || dict.tagName, reason: 'Not a text replacement' });
+      return;
+    }
+    const entries = dictEntries(dict);
+    const shortcut = stringValue(entries.get('shortcut')).trim();
+    const phrase = stringValue(entries.get('phrase'));
+    const summary = shortcut || phrase;
+    if (!shortcut) skipped.push({ location, text: summary, reason: 'Phrase without a shortcut' });
+    else if (!phrase.trim()) skipped.push({ location, text: summary, reason: 'Shortcut without a phrase' });
+    else if (seen.has(shortcut)) skipped.push({ location, text: summary, reason: `Shortcut already used in entry ${seen.get(shortcut)}` });
+    else {
+      seen.set(shortcut, idx + 1);
+      rows.push({ k: shortcut, e: phrase, s: 'all', d: '', tags: '', application: 'Apple' });
+    }
+  });
+  return { rows, skipped };
+};
+
+/** Apple's binary plists would need a decoder of their own; the dragged-out file is XML. */
+export const readApplePlistFile = async (bytes: Uint8Array): Promise<string> => {
+  const text = new TextDecoder().decode(bytes);
+  if (text.startsWith('bplist')) throw new Error('This is a binary plist - drag the replacements out of System Settings to get the XML version');
+  return text;
+};
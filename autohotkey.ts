@@ -0,0 +1,131 @@
+import { ShortcutData } from './types';
+import { ExportRejection, ExportResult, templateRejection } from './fileFormat';
+import { hasOption } from './expansionOptions';
+
+// --- AUTOHOTKEY HOTSTRINGS ---
+
+/**
+ * Writes an AutoHotkey v2 script with one hotstring per row:
+ *
+ *   :*?C1T:brb::be right back
+ *   :T:sig::
+ *   (LTrim0 RTrim0
+ *   Best regards,
+ *   Jane
+ *   )
+ *
+ * `T` sends the text as typed, so `{`, `!`, `^`, `+` and `#` need no escaping.
+ * Rows without the `word` option fire instantly, even inside words (`*?`),
+ * like espanso does; rows without `propagate_case` keep their case (`C1`).
+ */
+export const AHK_MAX_TRIGGER = 40; // AutoHotkey's limit on a hotstring abbreviation
+
+const AHK_HEADER = [
+  '; AutoHotkey v2 hotstrings exported from Text Expansion Manager',
+  '#Requires AutoHotkey v2.0',
+  '#SingleInstance Force',
+  '',
+].join('\r\n');
+
+/** Hotstring options for a row, e.g. `*?C1T`. */
+export const hotstringOptions = (item: ShortcutData): string => {
+  const instant = hasOption(item, 'word') ? '' : '*?';
+  const caseMode = hasOption(item, 'propagate_case') ? '' : 'C1';
+  return `${instant}${caseMode}T`;
+};
+
+/** Backticks and colons are special in an abbreviation. */
+const escapeTrigger = (trigger: string) => trigger.replace(/`/g, '``').replace(/:/g, '`:');
+
+/**
+ * A one-line replacement: leading and trailing blanks would be trimmed and
+ * ` ;` would start a comment, so those are escaped.
+ */
+const escapeLine = (text: string) =>
+  text
+    .replace(/`/g, '``')
+    .replace(/\t/g, '`t')
+    .replace(/(\s);/g, '$1`;')
+    .replace(/^ +| +$/g, spaces => '`s'.repeat(spaces.length));
+
+/** A continuation section keeps text as written, except backticks and a line that would close it. */
+const continuationLines = (text: string) =>
+  text.split('\n').map(line => line.replace(/`/g, '``').replace(/^(\s*)\)/, '$1`)'));
+
+export const toHotstring = (item: ShortcutData): string => {
+  const head = `:${hotstringOptions(item)}:${escapeTrigger(item.k)}::`;
+  const text = item.e.replace(/\r\n?/g, '\n');
+  if (!text.includes('\n')) return head + escapeLine(text);
+  return [head, '(LTrim0 RTrim0', ...continuationLines(text), ')'].join('\r\n');
+};
+
+/** Why AutoHotkey would refuse a row, or null when it can be exported. */
+export const hotstringRejection = (item: ShortcutData): string | null => {
+  if (!item.k.trim()) return 'Trigger is empty';
+  if (item.k !== item.k.trim()) return 'Trigger starts or ends with a space';
+  if (item.k.length > AHK_MAX_TRIGGER) return `Trigger is longer than ${AHK_MAX_TRIGGER} characters`;
+  if (/[\r\n]/.test(item.k)) return 'Trigger spans several lines';
+  if (!item.e) return 'Expansion is empty';
+  return templateRejection(item);
+};
+
+// --- COLLISIONS ---
+
+const MAX_WARNINGS = 50;
+
+/**
+ * Instant hotstrings (`*?`) fire as soon as their text appears, so one that
+ * sits inside a longer trigger fires first and that trigger never expands.
+ * Checked by looking up every substring of every trigger among the instant
+ * ones, which stays fast because triggers are at most 40 characters.
+ */
+const findShadowed = (rows: ShortcutData[]): string[] => {
+  const instant = new Map<string, string>(); // Lower-cased trigger → trigger as written
+  rows.forEach(item => { if (!hasOption(item, 'word')) instant.set(item.k.toLowerCase(), item.k); });
+
+  const warnings: string[] = [];
+  rows.forEach(item => {
+    const key = item.k.toLowerCase();
+    // Report the first hotstring to fire; a suffix competes with the whole trigger on the last keystroke
+    for (let end = 1; end <= key.length; end++) {
+      for (let start = end === key.length ? 1 : 0; start < end; start++) {
+        const shadow = instant.get(key.slice(start, end));
+        if (shadow !== undefined) {
+          warnings.push(`"${shadow}" fires while "${item.k}" is being typed, so "${item.k}" never expands`);
+          return;
+        }
+      }
+    }
+  });
+  return warnings;
+};
+
+export const exportAutoHotkey = (rows: ShortcutData[]): ExportResult => {
+  const rejected: ExportRejection[] = [];
+  const accepted: ShortcutData[] = [];
+  const firstByTrigger = new Map<string, string>();
+
+  rows.forEach(item => {
+    const reason = hotstringRejection(item);
+    if (reason) return rejected.push({ item, reason });
+    // Abbreviations are case-insensitive, and a script with the same one twice does not load
+    const key = item.k.toLowerCase();
+    if (firstByTrigger.has(key)) return rejected.push({ item, reason: `Same hotstring as "${firstByTrigger.get(key)}"` });
+    firstByTrigger.set(key, item.k);
+    accepted.push(item);
+  });
+
+  const shadowed = findShadowed(accepted);
+  const warnings = shadowed.length > MAX_WARNINGS
+    ? [...shadowed.slice(0, MAX_WARNINGS), `…and ${shadowed.length - MAX_WARNINGS} more colliding triggers`]
+    : shadowed;
+
+  const script = AHK_HEADER + '\r\n' + accepted.map(toHotstring).join('\r\n') + '\r\n';
+  return {
+    filename: 'text-expansions.ahk',
+    blob: new Blob(['\uFEFF' + script], { type: 'text/plain' }), // BOM so every AutoHotkey version reads it as UTF-8
+    exported: accepted.length,
+    rejected,
+    warnings,
+  };
+};
@@ -32,65 +32,10 @@ export const LETTER_STYLES: Record<string, string> = {
   art: "ASCII Art (🎨)"
 };
 
-export const EXPANSIONS_DATA: ShortcutData[] = [
+const RAW_EXPANSIONS: ShortcutData[] = [
   // ═══════════════════════════════════════════════════════════════════════════
   // 🛡️ DATOS PRINCIPALES E INGLÉS (PRESERVADOS)
   // ═══════════════════════════════════════════════════════════════════════════
-  {k:'January\'s',e:'0️⃣1️⃣/2️⃣0️⃣2️⃣3️⃣  🅹︎🅰︎🅽︎🆄︎🅰︎🆁︎🆈︎',s:'all'},
-  {k:'January\'s',e:'0️⃣1️⃣/2️⃣0️⃣2️⃣6️⃣ 🅹︎🅰︎🅽︎🆄︎🅰︎🆁︎🆈︎',s:'all'},
-  {k:'January',e:'0️⃣1️⃣_   _2️⃣0️⃣2️⃣6️⃣',s:'all'},
-  {k:'February',e:'0️⃣2️⃣/   /2️⃣0️⃣2️⃣3️⃣',s:'all'},
-  {k:'February',e:'0️⃣2️⃣_   _2️⃣0️⃣2️⃣6️⃣',s:'all'},
-  {k:'February\'s',e:'0️⃣2️⃣/2️⃣0️⃣2️⃣3️⃣  🅵︎🅴︎🅱︎🆁︎🆄︎🅰︎🆁︎🆈︎',s:'all'},
-  {k:'February\'s',e:'0️⃣2️⃣/2️⃣0️⃣2️⃣6️⃣ 🅵︎🅴︎🅱︎🆁︎🆄︎🅰︎🆁︎🆈︎',s:'all'},
-  {k:'March',e:'0️⃣3️⃣/   /2️⃣0️⃣2️⃣3️⃣',s:'all'},
-  {k:'March',e:'0️⃣3️⃣_   _2️⃣0️⃣2️⃣6️⃣',s:'all'},
-  {k:'marches',e:'0️⃣3️⃣/2️⃣0️⃣2️⃣3️⃣ 🅼︎🅰︎🆁︎🅲︎🅷︎',s:'all'},
-  {k:'marches',e:'0️⃣3️⃣/2️⃣0️⃣2️⃣6️⃣ 🅼︎🅰︎🆁︎🅲︎🅷︎',s:'all'},
-  {k:'April',e:'0️⃣4️⃣/   /2️⃣0️⃣2️⃣3️⃣',s:'all'},
-  {k:'April',e:'0️⃣4️⃣_   _2️⃣0️⃣2️⃣6️⃣',s:'all'},
-  {k:'April\'s',e:'0️⃣4️⃣/2️⃣0️⃣2️⃣3️⃣ 🅰︎🅿︎🆁︎🅸︎🅻︎',s:'all'},
-  {k:'April\'s',e:'0️⃣4️⃣/2️⃣0️⃣2️⃣6️⃣ 🅰︎🅿︎🆁︎🅸︎🅻︎',s:'all'},
-  {k:'May',e:'0️⃣5️⃣/   /2️⃣0️⃣2️⃣3️⃣',s:'all'},
-  {k:'May',e:'0️⃣5️⃣_   _2️⃣0️⃣2️⃣6️⃣',s:'all'},
-  {k:'may',e:'0️⃣5️⃣/   /2️⃣0️⃣2️⃣3️⃣',s:'all'},
-  {k:'may',e:'0️⃣5️⃣_   _2️⃣0️⃣2️⃣6️⃣',s:'all'},
-  {k:'mays',e:'0️⃣5️⃣/2️⃣0️⃣2️⃣3️⃣ 🅼︎🅰︎🆈︎',s:'all'},
-  {k:'mays',e:'0️⃣5️⃣/2️⃣0️⃣2️⃣6️⃣ 🅼︎🅰︎🆈︎',s:'all'},
-  {k:'June',e:'0️⃣6️⃣/   /2️⃣0️⃣2️⃣3️⃣',s:'all'},
-  {k:'June',e:'0️⃣6️⃣_   _2️⃣0️⃣2️⃣6️⃣',s:'all'},
-  {k:'June\'s',e:'0️⃣6️⃣/2️⃣0️⃣2️⃣3️⃣ 🅹︎🆄︎🅽︎🅴︎',s:'all'},
-  {k:'June\'s',e:'0️⃣6️⃣/2️⃣0️⃣2️⃣6️⃣ 🅹︎🆄︎🅽︎🅴︎',s:'all'},
-  {k:'July',e:'0️⃣7️⃣/   /2️⃣0️⃣2️⃣3️⃣',s:'all'},
-  {k:'July',e:'0️⃣7️⃣_   _2️⃣0️⃣2️⃣6️⃣',s:'all'},
-  {k:'Julys',e:'0️⃣7️⃣/2️⃣0️⃣2️⃣3️⃣ 🅹︎🆄︎🅻︎🆈︎',s:'all'},
-  {k:'Julys',e:'0️⃣7️⃣/2️⃣0️⃣2️⃣6️⃣ 🅹︎🆄︎🅻︎🆈︎',s:'all'},
-  {k:'August',e:'0️⃣8️⃣/   /2️⃣0️⃣2️⃣3️⃣',s:'all'},
-  {k:'August',e:'0️⃣8️⃣_   _2️⃣0️⃣2️⃣6️⃣',s:'all'},
-  {k:'Augusts',e:'0️⃣8️⃣/2️⃣0️⃣2️⃣3️⃣ 🅰︎🆄︎🅶︎🆄︎🆂︎🆃︎',s:'all'},
-  {k:'Augusts',e:'0️⃣8️⃣/2️⃣0️⃣2️⃣6️⃣ 🅰︎🆄︎🅶︎🆄︎🆂︎🆃︎',s:'all'},
-  {k:'September',e:'0️⃣9️⃣/   /2️⃣0️⃣2️⃣3️⃣',s:'all'},
-  {k:'September',e:'0️⃣9️⃣_   _2️⃣0️⃣2️⃣6️⃣',s:'all'},
-  {k:'Septembers',e:'0️⃣9️⃣/2️⃣0️⃣2️⃣3️⃣ 🆂︎🅴︎🅿︎🆃︎🅴︎🅼︎🅱︎🅴︎🆁︎',s:'all'},
-  {k:'Septembers',e:'0️⃣9️⃣/2️⃣0️⃣2️⃣6️⃣ 🆂︎🅴︎🅿︎🆃︎🅴︎🅼︎🅱︎🅴︎🆁︎',s:'all'},
-  {k:'October',e:'1️⃣0️⃣/   /2️⃣0️⃣2️⃣3️⃣',s:'all'},
-  {k:'October',e:'1️⃣0️⃣_   _2️⃣0️⃣2️⃣6️⃣',s:'all'},
-  {k:'October\'s',e:'1️⃣0️⃣/2️⃣0️⃣2️⃣3️⃣ 🅾︎🅲︎🆃︎🅾︎🅱︎🅴︎🆁︎',s:'all'},
-  {k:'October\'s',e:'1️⃣0️⃣/2️⃣0️⃣2️⃣6️⃣ 🅾︎🅲︎🆃︎🅾︎🅱︎🅴︎🆁︎',s:'all'},
-  {k:'November',e:'1️⃣1️⃣/   /2️⃣0️⃣2️⃣3️⃣',s:'all'},
-  {k:'November',e:'1️⃣1️⃣_   _2️⃣0️⃣2️⃣6️⃣',s:'all'},
-  {k:'November\'s',e:'1️⃣1️⃣/2️⃣0️⃣2️⃣3️⃣ 🅽︎🅾︎🆅︎🅴︎🅼︎🅱︎🅴︎🆁︎',s:'all'},
-  {k:'November\'s',e:'1️⃣1️⃣/2️⃣0️⃣2️⃣6️⃣ 🅽︎🅾︎🆅︎🅴︎🅼︎🅱︎🅴︎🆁︎',s:'all'},
-  {k:'December',e:'1️⃣2️⃣/   /2️⃣0️⃣2️⃣3️⃣',s:'all'},
-  {k:'December',e:'1️⃣2️⃣_   _2️⃣0️⃣2️⃣6️⃣',s:'all'},
-  {k:'December\'s',e:'1️⃣2️⃣/2️⃣0️⃣2️⃣3️⃣ 🅳︎🅴︎🅲︎🅴︎🅼︎🅱︎🅴︎🆁︎',s:'all'},
-  {k:'December\'s',e:'1️⃣2️⃣/2️⃣0️⃣2️⃣6️⃣ 🅳︎🅴︎🅲︎🅴︎🅼︎🅱︎🅴︎🆁︎',s:'all'},
-  {k:'years',e:'2️⃣0️⃣2️⃣2️⃣',s:'all'},
-  {k:'years',e:'2️⃣0️⃣2️⃣4️⃣',s:'all'},
-  {k:'year',e:'2️⃣0️⃣2️⃣3️⃣',s:'all'},
-  {k:'year',e:'2️⃣0️⃣2️⃣6️⃣',s:'all'},
-  {k:'yearly',e:'2️⃣0️⃣2️⃣4️⃣',s:'all'},
-  {k:'yearly',e:'2️⃣0️⃣2️⃣5️⃣',s:'all'},
   {k:'1',e:'1️⃣',s:'all'}, {k:'2',e:'2️⃣',s:'all'}, {k:'3',e:'3️⃣',s:'all'},
   {k:'4',e:'4️⃣',s:'all'}, {k:'5',e:'5️⃣',s:'all'}, {k:'6',e:'6️⃣',s:'all'},
   {k:'7',e:'7️⃣',s:'all'}, {k:'8',e:'8️⃣',s:'all'}, {k:'9',e:'9️⃣',s:'all'},
@@ -1592,3 +1537,58 @@ export const EXPANSIONS_DATA: ShortcutData[] = [
   { k: "A27", e: "✪", s: "all", style: "hearts" }, { k: "B27", e: "⁂", s: "all", style: "hearts" }, { k: "C27", e: "𑁍", s: "all", style: "hearts" }, { k: "D27", e: "᪥", s: "all", style: "hearts" }, { k: "E27", e: "𖧷", s: "all", style: "hearts" }, { k: "F27", e: "❤︎", s: "all", style: "hearts" }, { k: "G27", e: "❣︎", s: "all", style: "hearts" }, { k: "H27", e: "☾︎", s: "all", style: "hearts" }, { k: "I27", e: "☽︎", s: "all", style: "hearts" }, { k: "J27", e: "♫︎", s: "all", style: "hearts" }, { k: "K27", e: "🝮︎︎︎︎︎︎︎", s: "all", style: "hearts" }, { k: "L27", e: "✿︎", s: "all", style: "hearts" }, { k: "M27", e: "シ︎", s: "all", style: "hearts" }, { k: "N27", e: "㋛︎", s: "all", style: "hearts" }, { k: "O27", e: "ت︎", s: "all", style: "hearts" }, { k: "P27", e: "♡︎", s: "all", style: "hearts" }, { k: "Q27", e: "♥︎", s: "all", style: "hearts" }, { k: "R27", e: "❥︎", s: "all", style: "hearts" }, { k: "S27", e: "ఌ︎", s: "all", style: "hearts" }, { k: "T27", e: "ꨄ︎", s: "all", style: "hearts" }, { k: "U27", e: "❦︎", s: "all", style: "hearts" }, { k: "V27", e: "☀︎︎", s: "all", style: "hearts" }, { k: "W27", e: "☹︎", s: "all", style: "hearts" }, { k: "X27", e: "☻︎", s: "all", style: "hearts" }, { k: "Y27", e: "☺︎︎", s: "all", style: "hearts" }, { k: "Z27", e: "☠︎︎", s: "all", style: "hearts" },
   { k: "A28", e: "༒︎", s: "all", style: "esoteric" }, { k: "B28", e: "✞︎", s: "all", style: "esoteric" }, { k: "C28", e: "✔︎", s: "all", style: "esoteric" }, { k: "D28", e: "☏︎", s: "all", style: "esoteric" }, { k: "E28", e: "𓆉︎", s: "all", style: "esoteric" }, { k: "F28", e: "⌫", s: "all", style: "esoteric" }, { k: "G28", e: "𓁹", s: "all", style: "esoteric" }, { k: "H28", e: "𓂀", s: "all", style: "esoteric" },
 ];
+
+const TEMPLATE_EXPANSIONS: ShortcutData[] = [
+  // ═══════════════════════════════════════════════════════════════════════════
+  // 📅 PLANTILLAS DINÁMICAS (se completan al copiar)
+  // ═══════════════════════════════════════════════════════════════════════════
+  {k:'year',e:'{year|keycap}',s:'all',d:'Current year'},
+  {k:'month',e:'{month|keycap}/{year|keycap}',s:'all',d:'Current month and year'},
+  {k:'today',e:'{date:MM/DD/YYYY}',s:'english',d:'Today\'s date'},
+  {k:'hoy',e:'{date:DD/MM/YYYY}',s:'spanish',d:'Fecha de hoy'},
+  {k:'fecha',e:'{weekday} {date:D [de] MMMM [de] YYYY}',s:'spanish',d:'Fecha completa'},
+  {k:'now',e:'{time:HH:mm}',s:'all',d:'Current time'},
+  {k:'dayfill',e:'{month|keycap}_{{day:number}}_{year|keycap}',s:'all',d:'Date with the day filled in'},
+  {k:'thanks',e:'Hi {{name}}, thanks for your message! I will get back to you {{when:today|tomorrow|next week}}.',s:'english',d:'Reply template'},
+  {k:'gracias',e:'Hola {{nombre}}, ¡gracias por tu mensaje! Te respondo {{cuándo:hoy|mañana|la próxima semana}}.',s:'spanish',d:'Plantilla de respuesta'},
+  // Months, formerly one hardcoded row per year
+  {k:'January\'s',e:'0️⃣1️⃣/{year|keycap} 🅹︎🅰︎🅽︎🆄︎🅰︎🆁︎🆈︎',s:'all'},
+  {k:'January',e:'0️⃣1️⃣_   _{year|keycap}',s:'all'},
+  {k:'February',e:'0️⃣2️⃣_   _{year|keycap}',s:'all'},
+  {k:'February\'s',e:'0️⃣2️⃣/{year|keycap} 🅵︎🅴︎🅱︎🆁︎🆄︎🅰︎🆁︎🆈︎',s:'all'},
+  {k:'March',e:'0️⃣3️⃣_   _{year|keycap}',s:'all'},
+  {k:'marches',e:'0️⃣3️⃣/{year|keycap} 🅼︎🅰︎🆁︎🅲︎🅷︎',s:'all'},
+  {k:'April',e:'0️⃣4️⃣_   _{year|keycap}',s:'all'},
+  {k:'April\'s',e:'0️⃣4️⃣/{year|keycap} 🅰︎🅿︎🆁︎🅸︎🅻︎',s:'all'},
+  {k:'May',e:'0️⃣5️⃣_   _{year|keycap}',s:'all'},
+  {k:'may',e:'0️⃣5️⃣_   _{year|keycap}',s:'all'},
+  {k:'mays',e:'0️⃣5️⃣/{year|keycap} 🅼︎🅰︎🆈︎',s:'all'},
+  {k:'June',e:'0️⃣6️⃣_   _{year|keycap}',s:'all'},
+  {k:'June\'s',e:'0️⃣6️⃣/{year|keycap} 🅹︎🆄︎🅽︎🅴︎',s:'all'},
+  {k:'July',e:'0️⃣7️⃣_   _{year|keycap}',s:'all'},
+  {k:'Julys',e:'0️⃣7️⃣/{year|keycap} 🅹︎🆄︎🅻︎🆈︎',s:'all'},
+  {k:'August',e:'0️⃣8️⃣_   _{year|keycap}',s:'all'},
+  {k:'Augusts',e:'0️⃣8️⃣/{year|keycap} 🅰︎🆄︎🅶︎🆄︎🆂︎🆃︎',s:'all'},
+  {k:'September',e:'0️⃣9️⃣_   _{year|keycap}',s:'all'},
+  {k:'Septembers',e:'0️⃣9️⃣/{year|keycap} 🆂︎🅴︎🅿︎🆃︎🅴︎🅼︎🅱︎🅴︎🆁︎',s:'all'},
+  {k:'October',e:'1️⃣0️⃣_   _{year|keycap}',s:'all'},
+  {k:'October\'s',e:'1️⃣0️⃣/{year|keycap} 🅾︎🅲︎🆃︎🅾︎🅱︎🅴︎🆁︎',s:'all'},
+  {k:'November',e:'1️⃣1️⃣_   _{year|keycap}',s:'all'},
+  {k:'November\'s',e:'1️⃣1️⃣/{year|keycap} 🅽︎🅾︎🆅︎🅴︎🅼︎🅱︎🅴︎🆁︎',s:'all'},
+  {k:'December',e:'1️⃣2️⃣_   _{year|keycap}',s:'all'},
+  {k:'December\'s',e:'1️⃣2️⃣/{year|keycap} 🅳︎🅴︎🅲︎🅴︎🅼︎🅱︎🅴︎🆁︎',s:'all'},
+];
+
+/** Seed rows once opened with hardcoded 2023-2026 dates; the rows after them keep the ids they were stored under. */
+export const RETIRED_SEED_ROWS = 55;
+
+/**
+ * Seed rows get positional ids so each variant of a repeated trigger
+ * (e.g. both `314` rows) can be edited on its own. Append new rows at
+ * the end to keep existing ids stable.
+ */
+export const EXPANSIONS_DATA: ShortcutData[] = [...RAW_EXPANSIONS, ...TEMPLATE_EXPANSIONS]
+  .map((item, idx) => ({ ...item, id: `seed-${idx + RETIRED_SEED_ROWS}` }));
+
+/** The placeholder templates, which local stores seeded before they existed get from a seed migration. */
+export const SEED_TEMPLATES = EXPANSIONS_DATA.slice(-TEMPLATE_EXPANSIONS.length);
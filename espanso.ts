@@ -0,0 +1,263 @@
+import { ShortcutData } from './types';
+import { parseYaml, stringifyYaml, YamlValue } from './yaml';
+import { ExportRejection, ExportResult, ImportParseResult, ImportSkip } from './fileFormat';
+import { replacePlaceholders } from './placeholders';
+import { parseTemplateFields, replaceTemplateFields } from './templateFields';
+import { ExpansionOption, formatOptions, parseOptions } from './expansionOptions';
+
+// --- ESPANSO MATCH FILES ---
+
+/**
+ * espanso keeps its shortcuts in YAML match files (`match/*.yml`):
+ *
+ *   matches:
+ *     - trigger: ":sig"
+ *       replace: |
+ *         Best,
+ *         {{name}}
+ *       word: true
+ *
+ * Dynamic values come from `vars`. Dates and the clipboard map onto our
+ * placeholders, forms onto template fields; any other variable (shell,
+ * script, random…) is kept as a `{{name}}` field to fill in by hand.
+ */
+type YamlMap = { [key: string]: YamlValue };
+
+const isMap = (value: YamlValue | undefined): value is YamlMap =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const asList = (value: YamlValue | undefined): YamlValue[] => Array.isArray(value) ? value : [];
+
+// --- DATE FORMATS ---
+
+/** Our moment-style tokens (see formatDate) and their chrono strftime equivalents. */
+const MOMENT_TO_STRFTIME: Record<string, string> = {
+  YYYY: '%Y', YY: '%y', MMMM: '%B', MMM: '%b', MM: '%m', M: '%-m', DD: '%d', D: '%-d',
+  dddd: '%A', ddd: '%a', HH: '%H', H: '%-H', hh: '%I', h: '%-I', mm: '%M', ss: '%S', A: '%p',
+};
+
+const STRFTIME_TO_MOMENT: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(MOMENT_TO_STRFTIME).map(([moment, strftime]) => [strftime, moment])),
+  '%e': 'D', '%h': 'MMM',
+};
+
+export const toStrftime = (format: string): string =>
+  format.replace(/\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|ss|A|%/g, (token, literal) =>
+    literal !== undefined ? literal.replace(/%/g, '%%') : token === '%' ? '%%' : MOMENT_TO_STRFTIME[token]);
+
+/** The moment-style format for a strftime string, or null when it uses a directive we cannot express. */
+export const fromStrftime = (format: string): string | null => {
+  let out = '';
+  let literal = '';
+  const flush = () => {
+    out += /[A-Za-z]/.test(literal) ? `[${literal}]` : literal;
+    literal = '';
+  };
+  for (let i = 0; i < format.length; i++) {
+    if (format[i] !== '%') { literal += format[i]; continue; }
+    const directive = format[i + 1] === '-' ? format.slice(i, i + 3) : format.slice(i, i + 2);
+    i += directive.length - 1;
+    if (directive === '%%') { literal += '%'; continue; }
+    const token = STRFTIME_TO_MOMENT[directive];
+    if (!token) return null;
+    flush();
+    out += token;
+  }
+  flush();
+  return out;
+};
+
+/** Single-token formats read back as the short placeholders. */
+const SHORT_DATE_TOKENS: Record<string, string> = { YYYY: 'year', MM: 'month', DD: 'day', dddd: 'weekday', MMMM: 'monthname' };
+
+const datePlaceholder = (format: string): string => {
+  if (SHORT_DATE_TOKENS[format]) return `{${SHORT_DATE_TOKENS[format]}}`;
+  const timeOnly = /^(?:\[[^\]]*\]|HH|H|hh|h|mm|ss|A|[^A-Za-z[])+$/.test(format);
+  return `{${timeOnly ? 'time' : 'date'}:${format}}`;
+};
+
+/** strftime for each placeholder token; date and time without a format use the locale's defaults. */
+const PLACEHOLDER_FORMATS: Record<string, (arg?: string) => string> = {
+  date: arg => arg ? toStrftime(arg) : '%x',
+  time: arg => arg ? toStrftime(arg) : '%H:%M',
+  year: () => '%Y',
+  month: () => '%m',
+  day: () => '%d',
+  weekday: () => '%A',
+  monthname: () => '%B',
+};
+
+// --- IMPORT ---
+
+/** `[a, b]` or a newline-separated string, as form choice values may be written either way. */
+const choiceValues = (value: YamlValue | undefined): string[] =>
+  (Array.isArray(value) ? value.map(String) : String(value ?? '').split('\n')).map(option => option.trim()).filter(Boolean);
+
+/** A template field for one form field: `{{name}}`, or `{{name:a|b}}` for choice and list fields. */
+const formField = (name: string, spec: YamlValue | undefined): string => {
+  const options = isMap(spec) && (spec.type === 'choice' || spec.type === 'list') ? choiceValues(spec.values) : [];
+  return options.length > 1 ? `{{${name}:${options.join('|')}}}` : `{{${name}}}`;
+};
+
+const convertVariables = (text: string, vars: Map<string, YamlMap>): string =>
+  text.replace(/\{\{\s*([\p{L}\p{N}_-]+)(?:\.([\p{L}\p{N}_-]+))?\s*\}\}/gu, (token, name: string, field: string | undefined) => {
+    const variable = vars.get(name);
+    const params = isMap(variable?.params) ? variable!.params : {};
+    switch (variable?.type) {
+      case 'date': {
+        if (params.offset !== undefined || typeof params.format !== 'string') return token;
+        const format = fromStrftime(params.format);
+        return format ? datePlaceholder(format) : token;
+      }
+      case 'clipboard':
+        return '{clipboard}';
+      case 'echo':
+        return String(params.echo ?? '');
+      case 'form':
+        return field ? formField(field, isMap(params.fields) ? params.fields[field] : undefined) : token;
+      default:
+        return token;
+    }
+  });
+
+const matchOptions = (match: YamlMap): string | undefined =>
+  formatOptions((['word', 'propagate_case'] as ExpansionOption[]).filter(option => match[option] === true));
+
+/** Reads the `matches:` of an espanso file. Regex and image matches are skipped. */
+export const parseEspanso = (text: string): ImportParseResult => {
+  const doc = parseYaml(text);
+  if (!isMap(doc) || !Array.isArray(doc.matches)) throw new Error('No "matches:" list found - is this an espanso match file?');
+
+  const globalVars = asList(doc.global_vars).filter(isMap);
+  const rows: ShortcutData[] = [];
+  const skipped: ImportSkip[] = [];
+
+  doc.matches.forEach((match, idx) => {
+    const location = `Match ${idx + 1}`;
+    if (!isMap(match)) {
+      skipped.push({ location, text: String(match), reason: 'Not a match entry' });
+      return;
+    }
+    const triggers = (match.triggers !== undefined ? asList(match.triggers) : [match.trigger])
+      .filter(trigger => trigger !== null && trigger !== undefined)
+      .map(String);
+    const summary = triggers.join(', ') || String(match.regex ?? match.label ?? '');
+    const skip = (reason: string) => skipped.push({ location, text: summary, reason });
+
+    if (match.regex !== undefined) return skip('Regex triggers are not supported');
+    if (match.image_path !== undefined) return skip('Image matches are not supported');
+    if (triggers.length === 0) return skip('No trigger');
+
+    let replace: string;
+    if (typeof match.form === 'string') {
+      const fields = isMap(match.form_fields) ? match.form_fields : {};
+      replace = match.form.replace(/\[\[\s*([\p{L}\p{N}_-]+)\s*\]\]/gu, (_, name: string) => formField(name, fields[name]));
+    } else {
+      const value = match.replace ?? match.markdown ?? match.html;
+      if (value === undefined || value === null) return skip('No replace text');
+      replace = String(value);
+    }
+
+    const vars = new Map<string, YamlMap>();
+    [...globalVars, ...asList(match.vars).filter(isMap)].forEach(v => vars.set(String(v.name), v));
+    const e = convertVariables(replace, vars);
+    if (!e.trim()) return skip('Replace text is empty');
+
+    const options = matchOptions(match);
+    triggers.forEach(k => rows.push({
+      k, e, s: 'all', d: typeof match.label === 'string' ? match.label : '', tags: '', application: 'espanso', options
+    }));
+  });
+  return { rows, skipped };
+};
+
+// --- EXPORT ---
+
+/** espanso variable names are identifiers; template field names may hold spaces. */
+const variableName = (name: string) => name.trim().replace(/[^\p{L}\p{N}_]+/gu, '_') || 'field';
+
+/** One match, or the reason the row cannot be expressed as one. */
+export const toEspansoMatch = (item: ShortcutData): { match: YamlMap } | { reason: string } => {
+  if (!item.k.trim()) return { reason: 'Trigger is empty' };
+  if (!item.e) return { reason: 'Expansion is empty' };
+
+  const vars: YamlMap[] = [];
+  const usedNames = new Set<string>();
+  const uniqueName = (base: string) => {
+    let name = base;
+    for (let n = 2; usedNames.has(name); n++) name = `${base}${n}`;
+    usedNames.add(name);
+    return name;
+  };
+
+  // Template fields become one form; done first, as `{{…}}` is also espanso's variable syntax
+  let replace = item.e;
+  const fields = parseTemplateFields(item.e);
+  if (fields.length > 0) {
+    const form = uniqueName('form');
+    const names = new Map(fields.map(field => [field.name, uniqueName(variableName(field.name))]));
+    const formFields: YamlMap = {};
+    fields.forEach(field => {
+      if (field.kind === 'choice') formFields[names.get(field.name)!] = { type: 'choice', values: field.options };
+    });
+    vars.push({
+      name: form,
+      type: 'form',
+      params: {
+        layout: fields.map(field => `${field.name}: [[${names.get(field.name)}]]`).join('\n'),
+        ...(Object.keys(formFields).length > 0 ? { fields: formFields } : {}),
+      },
+    });
+    replace = replaceTemplateFields(replace, name => `{{${form}.${names.get(name)}}}`);
+  }
+
+  const dateVars = new Map<string, string>(); // strftime → variable name
+  let clipboardVar: string | null = null;
+  let unsupported: string | null = null;
+  replace = replacePlaceholders(replace, ({ token, name, arg, modifiers }) => {
+    const format = PLACEHOLDER_FORMATS[name]?.(arg);
+    if (name !== 'clipboard' && format === undefined) return token; // Not one of ours; espanso shows it as typed
+    if (modifiers.length > 0) {
+      unsupported = `${token} - placeholder modifiers have no espanso equivalent`;
+      return token;
+    }
+    if (name === 'clipboard') {
+      if (!clipboardVar) {
+        clipboardVar = uniqueName('clipboard');
+        vars.push({ name: clipboardVar, type: 'clipboard' });
+      }
+      return `{{${clipboardVar}}}`;
+    }
+    if (!dateVars.has(format!)) {
+      const varName = uniqueName(name);
+      dateVars.set(format!, varName);
+      vars.push({ name: varName, type: 'date', params: { format: format! } });
+    }
+    return `{{${dateVars.get(format!)}}}`;
+  });
+  if (unsupported) return { reason: unsupported };
+
+  const match: YamlMap = { trigger: item.k, replace };
+  if (vars.length > 0) match.vars = vars;
+  parseOptions(item.options).forEach(option => { match[option] = true; });
+  if (item.d?.trim()) match.label = item.d.trim();
+  return { match };
+};
+
+const ESPANSO_HEADER = '# espanso match file exported from Text Expansion Manager\n# Save it in espanso\'s match/ folder (espanso path shows where that is)\n';
+
+export const exportEspanso = (rows: ShortcutData[]): ExportResult => {
+  const matches: YamlValue[] = [];
+  const rejected: ExportRejection[] = [];
+  rows.forEach(item => {
+    const result = toEspansoMatch(item);
+    if ('reason' in result) rejected.push({ item, reason: result.reason });
+    else matches.push(result.match);
+  });
+  return {
+    filename: 'text-expansions.yml',
+    blob: new Blob([ESPANSO_HEADER + stringifyYaml({ matches })], { type: 'text/yaml' }),
+    exported: matches.length,
+    rejected,
+  };
+};
@@ -0,0 +1,30 @@
+import { ShortcutData } from './types';
+
+// --- EXPANSION OPTIONS ---
+
+/**
+ * How a desktop expander should fire a trigger. Stored on the row as a
+ * comma-separated `options` string so the sheet needs only one column, and
+ * carried through the espanso and AutoHotkey converters.
+ */
+export type ExpansionOption = 'word' | 'propagate_case';
+
+export const EXPANSION_OPTIONS: Record<ExpansionOption, { label: string; hint: string }> = {
+  word: { label: 'Whole word', hint: 'Only expand when the trigger is typed as a separate word' },
+  propagate_case: { label: 'Match case', hint: 'Typing the trigger capitalized capitalizes the expansion' },
+};
+
+const isOption = (value: string): value is ExpansionOption => value in EXPANSION_OPTIONS;
+
+/** Known options on a row, in a stable order; unknown values are dropped. */
+export const parseOptions = (value?: string): ExpansionOption[] => {
+  const listed = new Set((value || '').split(',').map(option => option.trim()).filter(isOption));
+  return (Object.keys(EXPANSION_OPTIONS) as ExpansionOption[]).filter(option => listed.has(option));
+};
+
+/** The stored form; undefined when no option is set, so untouched rows stay equal. */
+export const formatOptions = (options: ExpansionOption[]): string | undefined =>
+  parseOptions(options.join(',')).join(',') || undefined;
+
+export const hasOption = (item: ShortcutData, option: ExpansionOption): boolean =>
+  parseOptions(item.options).includes(option);
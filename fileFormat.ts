@@ -0,0 +1,52 @@
+import { ShortcutData } from './types';
+import { hasPlaceholders } from './placeholders';
+import { hasTemplateFields } from './templateFields';
+
+// --- SHARED IMPORT & EXPORT TYPES ---
+
+/** A row an exporter left out, and why, so the UI can list it. */
+export interface ExportRejection {
+  item: ShortcutData;
+  reason: string;
+}
+
+export interface ExportResult {
+  filename: string;
+  blob: Blob;
+  exported: number;
+  rejected: ExportRejection[];
+  warnings?: string[]; // Exported, but worth a look (e.g. colliding triggers)
+}
+
+/** A source entry an importer could not turn into a shortcut. */
+export interface ImportSkip {
+  location: string; // "Line 4", "Match 3"…
+  text: string;
+  reason: string;
+}
+
+export interface ImportParseResult {
+  rows: ShortcutData[];
+  skipped: ImportSkip[];
+}
+
+// --- HELPERS ---
+
+/**
+ * Keyboards and expanders without a template language would paste `{date}`
+ * or `{{name}}` literally, so their exporters leave such rows out.
+ */
+export const templateRejection = (item: ShortcutData): string | null =>
+  hasPlaceholders(item.e) || hasTemplateFields(item.e) ? 'Template - only filled in when copied here' : null;
+
+/** Saves a blob through a temporary download link. */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,299 @@
+import {
+  GoogleScriptRun,
+  BackendShortcut,
+  BootstrapResponse,
+  SnapshotPageResponse,
+  DeltaResponse,
+  MutationResponse,
+  FavoriteResponse,
+  BulkImportResponse,
+  ActionResponse,
+  GasResult,
+} from './types';
+
+// --- RPC CONTRACT ---
+
+export type GasMethod = Exclude<keyof GoogleScriptRun, 'withSuccessHandler' | 'withFailureHandler'>;
+
+export type GasArgs<M extends GasMethod> = Parameters<GoogleScriptRun[M]>;
+
+/** Methods that only open a dialog or sidebar in the sheet; whatever they return is ignored. */
+export type LauncherMethod =
+  | 'MASTER_openDashboard' | 'MASTER_openColab' | 'MASTER_openGitHub' | 'MASTER_showRecentLogsDialog'
+  | 'MASTER_showLinkManagerDialog' | 'MASTER_openProjectFolder'
+  | 'openMLCategorizer' | 'openDataQuality' | 'openDuplicateFinder' | 'openAnalytics' | 'openBackupSystem'
+  | 'openDriveBridge' | 'openFontCategorizer' | 'openTextExpanderCategorizer' | 'openToolsFolder' | 'configurePythonURLs'
+  | 'showCacheStatistics' | 'importTEMData' | 'showTEMStatistics' | 'openTextExpanderHelpDialog' | 'showTEMAbout';
+
+/** Maintenance, cache and advanced actions that report back with an ActionResponse. */
+export type ActionMethod =
+  | 'MASTER_createProjectFolder'
+  | 'cleanupDuplicateShortcuts' | 'cleanupDuplicateFavorites' | 'cleanupAllDuplicates'
+  | 'findEmptyEntries' | 'removeEmptyEntries' | 'generateCleanupReport'
+  | 'warmShortcutsCache' | 'rebuildShortcutsCache' | 'invalidateShortcutsCache' | 'testCachePerformance'
+  | 'addEnhancedDropdowns' | 'removeEnhancedDropdowns' | 'refreshEnhancedDropdowns'
+  | 'exportAllTEMData' | 'backupTEMToDrive' | 'restoreFromBackup';
+
+export interface GasResponses extends Record<LauncherMethod, unknown>, Record<ActionMethod, ActionResponse | null> {
+  getAppBootstrapData: BootstrapResponse;
+  beginShortcutsSnapshotHandler: SnapshotPageResponse;
+  fetchShortcutsBatch: SnapshotPageResponse;
+  fetchShortcutsDelta: DeltaResponse;
+  upsertShortcut: MutationResponse;
+  renameShortcut: MutationResponse;
+  deleteShortcut: MutationResponse;
+  toggleFavorite: FavoriteResponse;
+  handleClipboardFavorite: FavoriteResponse;
+  bulkImport: BulkImportResponse;
+}
+
+/**
+ * Raised when a handler answers with a payload that does not match its
+ * contract, so the UI can report which call broke instead of crashing later.
+ */
+export class GasResponseError extends Error {
+  constructor(
+    public readonly method: GasMethod,
+    public readonly path: string,
+    public readonly expected: string,
+    public readonly received: unknown
+  ) {
+    super(`${method} returned a malformed response: expected ${expected} at ${path}`);
+    this.name = 'GasResponseError';
+  }
+}
+
+/**
+ * Raised when a handler answers `ok: false`: the sheet received the call and
+ * refused it (a validation error, say), so sending it again will not help.
+ */
+export class GasRejectedError extends Error {
+  constructor(public readonly method: GasMethod, message?: string) {
+    super(message || `${method} was rejected`);
+    this.name = 'GasRejectedError';
+  }
+}
+
+/** Whether a failed call might go through later: only when the sheet never gave a usable answer. */
+export const isTransportFailure = (err: unknown) => !(err instanceof GasResponseError || err instanceof GasRejectedError);
+
+// --- RUNTIME VALIDATION ---
+
+type Check<T> = (value: unknown, path: string) => T;
+
+/** Thrown by checks and rewrapped with the method name in runGas. */
+class ShapeMismatch {
+  constructor(public readonly path: string, public readonly expected: string, public readonly received: unknown) {}
+}
+
+const mismatch = (path: string, expected: string, received: unknown): never => {
+  throw new ShapeMismatch(path, expected, received);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const str: Check<string> = (v, p) => typeof v === 'string' ? v : mismatch(p, 'string', v);
+
+const num: Check<number> = (v, p) => typeof v === 'number' && !Number.isNaN(v) ? v : mismatch(p, 'number', v);
+
+const bool: Check<boolean> = (v, p) => typeof v === 'boolean' ? v : mismatch(p, 'boolean', v);
+
+/** Sheet cells come back as numbers when they look numeric (e.g. a trigger like 1126). */
+const cell: Check<string> = (v, p) =>
+  typeof v === 'string' ? v : typeof v === 'number' ? String(v) : mismatch(p, 'string', v);
+
+/** Checkbox columns may arrive as booleans or as "TRUE"/"FALSE" text. */
+const flag: Check<boolean> = (v, p) => {
+  if (typeof v === 'boolean') return v;
+  if (typeof v === 'string' && /^(true|false)$/i.test(v)) return v.toLowerCase() === 'true';
+  return mismatch(p, 'boolean', v);
+};
+
+const optional = <T,>(check: Check<T>): Check<T | undefined> =>
+  (v, p) => v === undefined || v === null ? undefined : check(v, p);
+
+const arrayOf = <T,>(check: Check<T>): Check<T[]> =>
+  (v, p) => Array.isArray(v) ? v.map((item, idx) => check(item, `${p}[${idx}]`)) : mismatch(p, 'array', v);
+
+const anything: Check<unknown> = (v) => v;
+
+/** Validates the listed fields and keeps any extra fields the backend sends. */
+const shape = <T extends object>(checks: { [K in keyof T]-?: Check<T[K]> }): Check<T> => (v, p) => {
+  if (!isRecord(v)) return mismatch(p, 'object', v);
+  const out: Record<string, unknown> = { ...v };
+  (Object.keys(checks) as Array<keyof T & string>).forEach(key => {
+    out[key] = checks[key](v[key], `${p}.${key}`);
+  });
+  return out as T;
+};
+
+/** Success payloads are only checked when `ok` is true; failures just need a readable message. */
+const result = <T extends object>(checks: { [K in keyof T]-?: Check<T[K]> }): Check<GasResult<T>> => {
+  const success = shape(checks);
+  return (v, p) => {
+    const status = shape<{ ok: boolean; message?: string }>({ ok: bool, message: optional(str) })(v, p);
+    if (!status.ok) return { ok: false as const, message: status.message };
+    return { ...success(v, p), ok: true as const, message: status.message };
+  };
+};
+
+const nullable = <T,>(check: Check<T>): Check<T | null> => (v, p) => v === undefined || v === null ? null : check(v, p);
+
+const backendShortcut = shape<BackendShortcut>({
+  id: optional(cell),
+  key: optional(cell),
+  expansion: optional(cell),
+  language: optional(cell),
+  style: optional(cell),
+  fontStyle: optional(cell),
+  description: optional(cell),
+  tags: optional(cell),
+  application: optional(cell),
+  favorite: optional(flag),
+  mainCategory: optional(cell),
+  subcategory: optional(cell),
+  platform: optional(cell),
+  usageFrequency: optional(cell),
+  options: optional(cell),
+  updatedAt: optional(cell),
+  position: optional(num),
+});
+
+const snapshotPage = result({
+  snapshotToken: optional(str),
+  total: optional(num),
+  shortcuts: arrayOf(backendShortcut),
+  hasMore: bool,
+  offset: num,
+  watermark: optional(str),
+});
+
+const bootstrap = result<{ schemaVersion?: string; total?: number }>({ schemaVersion: optional(cell), total: optional(num) });
+
+const delta = result<{ shortcuts: BackendShortcut[]; deleted: string[]; watermark?: string; hasMore?: boolean; fullResyncRequired?: boolean }>({
+  shortcuts: arrayOf(backendShortcut),
+  deleted: (v, p) => v === undefined || v === null ? [] : arrayOf(cell)(v, p),
+  watermark: optional(str),
+  hasMore: optional(bool),
+  fullResyncRequired: optional(bool),
+});
+
+const bulkImport = result<{ inserted: number; updated: number; errors: unknown[] }>({
+  inserted: num,
+  updated: num,
+  errors: (v, p) => v === undefined || v === null ? [] : arrayOf(anything)(v, p),
+});
+
+const mutation = result({ id: optional(cell), removed: optional(num) });
+
+/** The legacy favorites.gs handlers return nothing at all, which counts as success. */
+const favorite: Check<GasResult<{ favorite?: boolean }>> = (v, p) =>
+  v === undefined || v === null ? { ok: true, favorite: undefined } : result({ favorite: optional(flag) })(v, p);
+
+const action = nullable(shape<ActionResponse>({
+  ok: optional(bool),
+  success: optional(bool),
+  message: optional(str),
+  removed: optional(num),
+  cached: optional(num),
+  count: optional(num),
+  folderUrl: optional(str),
+}));
+
+const RESPONSE_CHECKS: { [M in GasMethod]: Check<GasResponses[M]> } = {
+  getAppBootstrapData: bootstrap,
+  beginShortcutsSnapshotHandler: snapshotPage,
+  fetchShortcutsBatch: snapshotPage,
+  fetchShortcutsDelta: delta,
+  upsertShortcut: mutation,
+  renameShortcut: mutation,
+  deleteShortcut: mutation,
+  toggleFavorite: favorite,
+  handleClipboardFavorite: favorite,
+  bulkImport,
+
+  MASTER_openDashboard: anything,
+  MASTER_openColab: anything,
+  MASTER_openGitHub: anything,
+  MASTER_showRecentLogsDialog: anything,
+  MASTER_showLinkManagerDialog: anything,
+  MASTER_createProjectFolder: action,
+  MASTER_openProjectFolder: anything,
+
+  openMLCategorizer: anything,
+  openDataQuality: anything,
+  openDuplicateFinder: anything,
+  openAnalytics: anything,
+  openBackupSystem: anything,
+  openDriveBridge: anything,
+  openFontCategorizer: anything,
+  openTextExpanderCategorizer: anything,
+  openToolsFolder: anything,
+  configurePythonURLs: anything,
+
+  cleanupDuplicateShortcuts: action,
+  cleanupDuplicateFavorites: action,
+  cleanupAllDuplicates: action,
+  findEmptyEntries: action,
+  removeEmptyEntries: action,
+  generateCleanupReport: action,
+  warmShortcutsCache: action,
+  rebuildShortcutsCache: action,
+  invalidateShortcutsCache: action,
+  showCacheStatistics: anything,
+  testCachePerformance: action,
+
+  addEnhancedDropdowns: action,
+  removeEnhancedDropdowns: action,
+  refreshEnhancedDropdowns: action,
+  exportAllTEMData: action,
+  importTEMData: anything,
+  backupTEMToDrive: action,
+  restoreFromBackup: action,
+
+  showTEMStatistics: anything,
+  openTextExpanderHelpDialog: anything,
+  showTEMAbout: anything,
+};
+
+// --- CLIENT ---
+
+/**
+ * Promisifies a Google Apps Script call with timeout support and checks the
+ * response against the method's contract before handing it back.
+ */
+export const runGas = <M extends GasMethod>(
+  method: M,
+  args: GasArgs<M> = [] as unknown as GasArgs<M>,
+  timeout = 60000
+): Promise<GasResponses[M]> => {
+  return new Promise((resolve, reject) => {
+    if (!window.google?.script) {
+      reject(new Error("GAS_UNAVAILABLE"));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      reject(new Error("TIMEOUT"));
+    }, timeout);
+
+    const runner = window.google.script.run
+      .withSuccessHandler((res) => {
+        clearTimeout(timer);
+        try {
+          resolve(RESPONSE_CHECKS[method](res, 'response'));
+        } catch (err) {
+          reject(err instanceof ShapeMismatch
+            ? new GasResponseError(method, err.path, err.expected, err.received)
+            : err);
+        }
+      })
+      .withFailureHandler((err) => {
+        clearTimeout(timer);
+        reject(err);
+      });
+
+    (runner[method] as (...callArgs: GasArgs<M>) => void)(...args);
+  });
+};
@@ -0,0 +1,93 @@
+import { LanguageCategory, ShortcutData } from './types';
+import { createZip, isZip, readZip } from './zip';
+import { ExportRejection, ExportResult, ImportParseResult, templateRejection } from './fileFormat';
+
+// --- GBOARD DICTIONARY ---
+
+/**
+ * Gboard's personal dictionary export is a zip holding `dictionary.txt`: a
+ * version header, then one `word<TAB>shortcut<TAB>locale` line per entry. An
+ * empty locale means "all languages".
+ */
+export const GBOARD_HEADER = '# Gboard Dictionary version:1';
+export const GBOARD_FILE = 'dictionary.txt';
+
+export const GBOARD_LOCALES: Record<LanguageCategory, string> = {
+  english: 'en-US',
+  spanish: 'es-ES',
+  all: '',
+};
+
+/** Why Gboard would refuse a row, or null when it can be exported. */
+export const gboardRejection = (item: ShortcutData): string | null => {
+  if (!item.k.trim()) return 'Trigger is empty';
+  if (/\s/.test(item.k)) return 'Trigger contains spaces';
+  if (!item.e.trim()) return 'Expansion is empty';
+  if (/[\t\r\n]/.test(item.e)) return 'Expansion spans several lines';
+  return templateRejection(item);
+};
+
+/** The dictionary.txt text for the rows Gboard accepts, plus the ones it would not. */
+export const buildGboardDictionary = (rows: ShortcutData[]): { text: string; exported: number; rejected: ExportRejection[] } => {
+  const lines = [GBOARD_HEADER];
+  const rejected: ExportRejection[] = [];
+  rows.forEach(item => {
+    const reason = gboardRejection(item);
+    if (reason) rejected.push({ item, reason });
+    else lines.push([item.e, item.k, GBOARD_LOCALES[item.s] ?? ''].join('\t'));
+  });
+  return { text: lines.join('\n') + '\n', exported: lines.length - 1, rejected };
+};
+
+/** A zip Gboard can import from Settings › Dictionary › Personal dictionary. */
+export const exportGboard = (rows: ShortcutData[]): ExportResult => {
+  const { text, exported, rejected } = buildGboardDictionary(rows);
+  const zip = createZip([{ name: GBOARD_FILE, data: text }]);
+  return {
+    filename: 'gboard-dictionary.zip',
+    blob: new Blob([zip], { type: 'application/zip' }),
+    exported,
+    rejected,
+  };
+};
+
+// --- IMPORT ---
+
+/** en-US, en_GB, es-419 → english / spanish; any other or empty locale → all. */
+export const gboardLanguage = (locale: string): LanguageCategory => {
+  const lang = locale.trim().toLowerCase().split(/[-_]/)[0];
+  return lang === 'en' ? 'english' : lang === 'es' ? 'spanish' : 'all';
+};
+
+/**
+ * Parses dictionary.txt. Comment lines are ignored; plain dictionary words
+ * (no shortcut) are skipped, since there is nothing to expand them from.
+ * Gboard lets one shortcut offer several words, but bulkImport updates rows
+ * by trigger, so only the first word is kept.
+ */
+export const parseGboardDictionary = (text: string): ImportParseResult => {
+  const rows: ShortcutData[] = [];
+  const skipped: ImportParseResult['skipped'] = [];
+  const seen = new Map<string, number>(); // Trigger → line it was first used on
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((line, idx) => {
+    if (!line.trim() || line.startsWith('#')) return;
+    const [word = '', shortcut = '', locale = ''] = line.split('\t');
+    if (!shortcut.trim()) skipped.push({ location: `Line ${idx + 1}`, text: line, reason: 'Dictionary word without a shortcut' });
+    else if (!word.trim()) skipped.push({ location: `Line ${idx + 1}`, text: line, reason: 'Shortcut without a word' });
+    else if (seen.has(shortcut.trim())) skipped.push({ location: `Line ${idx + 1}`, text: line, reason: `Shortcut already used on line ${seen.get(shortcut.trim())}` });
+    else {
+      seen.set(shortcut.trim(), idx + 1);
+      rows.push({ k: shortcut.trim(), e: word, s: gboardLanguage(locale), d: '', tags: '', application: 'Gboard' });
+    }
+  });
+  return { rows, skipped };
+};
+
+/** The dictionary.txt text from a Gboard export, whether zipped or not. */
+export const readGboardFile = async (bytes: Uint8Array): Promise<string> => {
+  if (!isZip(bytes)) return new TextDecoder().decode(bytes);
+  const files = await readZip(bytes);
+  const dictionary = files.find(f => f.name.split('/').pop()?.toLowerCase() === GBOARD_FILE);
+  if (!dictionary) throw new Error(`No ${GBOARD_FILE} in this zip`);
+  return new TextDecoder().decode(dictionary.data);
+};
@@ -0,0 +1,113 @@
+import { isZip } from './zip';
+import { readGboardFile } from './gboard';
+import { readApplePlistFile } from './applePlist';
+
+// --- IMPORT FILES ---
+
+/** Every format the import modal understands; files are matched to one by content, not just by name. */
+export type ImportFormat = 'csv' | 'tsv' | 'json' | 'gboard' | 'espanso' | 'apple';
+
+export interface LoadedImportFile {
+  name: string;
+  size: number;
+  format: ImportFormat;
+  encoding: string;
+  text: string;
+}
+
+/** For the file picker; anything dropped is sniffed regardless. */
+export const IMPORT_FILE_ACCEPT = '.csv,.tsv,.tab,.txt,.json,.yml,.yaml,.plist,.zip';
+
+// --- ENCODING ---
+
+const startsWith = (bytes: Uint8Array, prefix: number[]) => prefix.every((byte, idx) => bytes[idx] === byte);
+
+/** Share of the zero bytes at even and odd offsets of a sample; ASCII text as UTF-16 has every other byte zero. */
+const zeroShare = (bytes: Uint8Array, offset: number) => {
+  let zeros = 0;
+  let total = 0;
+  for (let i = offset; i < Math.min(bytes.length, 1024); i += 2, total++) if (bytes[i] === 0) zeros++;
+  return total ? zeros / total : 0;
+};
+
+/**
+ * Decodes a file as the encoding its byte order mark names; without one,
+ * UTF-16 is recognised by its zero bytes, then UTF-8 is tried strictly and
+ * anything that is not valid UTF-8 is read as Windows-1252 (what Excel on
+ * Windows writes for "CSV" by default).
+ */
+export const decodeText = (bytes: Uint8Array): { text: string; encoding: string } => {
+  if (startsWith(bytes, [0xEF, 0xBB, 0xBF])) return { text: new TextDecoder('utf-8').decode(bytes), encoding: 'UTF-8 (BOM)' };
+  if (startsWith(bytes, [0xFF, 0xFE])) return { text: new TextDecoder('utf-16le').decode(bytes), encoding: 'UTF-16 LE' };
+  if (startsWith(bytes, [0xFE, 0xFF])) return { text: new TextDecoder('utf-16be').decode(bytes), encoding: 'UTF-16 BE' };
+  if (zeroShare(bytes, 1) > 0.4) return { text: new TextDecoder('utf-16le').decode(bytes), encoding: 'UTF-16 LE' };
+  if (zeroShare(bytes, 0) > 0.4) return { text: new TextDecoder('utf-16be').decode(bytes), encoding: 'UTF-16 BE' };
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'UTF-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'Windows-1252' };
+  }
+};
+
+// --- FORMAT ---
+
+/** A Gboard line without the header: word, shortcut and a locale such as `en-US` (or none). */
+const GBOARD_LINE = /^[^\t]+\t[^\t]+\t([a-z]{2,3}([-_][A-Za-z0-9]{2,4})?)?$/;
+
+/**
+ * Picks the format from the content first, falling back on the file
+ * extension; an explicit `.csv` or `.tsv` wins over content that merely
+ * starts like JSON (a `{sig},Best regards` row, say).
+ */
+export const sniffFormat = (text: string, filename = ''): ImportFormat => {
+  const extension = filename.includes('.') ? filename.split('.').pop()!.toLowerCase() : '';
+  const head = text.replace(/^\uFEFF/, '').trimStart();
+  const firstLine = head.split(/\r\n?|\n/, 1)[0] || '';
+
+  if (/^<(\?xml|!DOCTYPE plist|plist)/.test(head) || extension === 'plist') return 'apple';
+  if (firstLine.startsWith('# Gboard Dictionary')) return 'gboard';
+  if (extension === 'tsv' || extension === 'tab') return 'tsv';
+  if (extension === 'csv') return 'csv';
+  if (/^[[{]/.test(head) || extension === 'json') return 'json';
+  if (/^(matches|global_vars|imports):/m.test(head) || extension === 'yml' || extension === 'yaml') return 'espanso';
+
+  const tabs = firstLine.split('\t').length - 1;
+  const commas = firstLine.split(',').length - 1;
+  if (tabs > 0 && tabs >= commas) return GBOARD_LINE.test(firstLine) && !/[,;]/.test(firstLine) ? 'gboard' : 'tsv';
+  return 'csv';
+};
+
+// --- READING ---
+
+/** Reads a file in chunks so a large one can report how far along it is. */
+export const readFileBytes = async (file: File, onProgress?: (loaded: number) => void): Promise<Uint8Array> => {
+  const reader = file.stream().getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    onProgress?.(loaded);
+  }
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  chunks.forEach(chunk => { bytes.set(chunk, offset); offset += chunk.length; });
+  return bytes;
+};
+
+/** Reads, unzips and decodes a file, and works out which format it is in. */
+export const loadImportFile = async (file: File, onProgress?: (loaded: number) => void): Promise<LoadedImportFile> => {
+  const bytes = await readFileBytes(file, onProgress);
+  const base = { name: file.name, size: file.size };
+  if (isZip(bytes)) return { ...base, format: 'gboard', encoding: 'UTF-8', text: await readGboardFile(bytes) };
+  if (new TextDecoder().decode(bytes.subarray(0, 6)) === 'bplist') await readApplePlistFile(bytes); // Refuses binary plists with a helpful message
+  const { text, encoding } = decodeText(bytes);
+  return { ...base, format: sniffFormat(text, file.name), encoding, text };
+};
+
+export const formatFileSize = (bytes: number): string =>
+  bytes < 1024 ? `${bytes} B`
+    : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
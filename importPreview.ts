@@ -0,0 +1,315 @@
+import { LanguageCategory, ShortcutData } from './types';
+import { LIMITS, limitErrors } from './limits';
+import { ImportParseResult } from './fileFormat';
+import { createLocalId } from './localStore';
+import { formatOptions, parseOptions } from './expansionOptions';
+
+// --- IMPORT PREVIEW ---
+
+/**
+ * Every import is parsed in the browser and compared with the loaded rows
+ * before anything is sent, so the preview can say exactly which rows are
+ * new, which change (and how), which are already up to date and which are
+ * invalid. Empty cells never clear a field; they leave it as it is.
+ */
+export type ImportStatus = 'insert' | 'update' | 'unchanged' | 'skipped' | 'error';
+
+/** What to do with an imported row whose trigger is already in the sheet. */
+export type ConflictResolution = 'overwrite' | 'merge' | 'variant' | 'skip';
+
+export const CONFLICT_RESOLUTIONS: Record<ConflictResolution, { label: string; hint: string }> = {
+  overwrite: { label: 'Overwrite', hint: 'Replace the existing values with the imported ones' },
+  merge: { label: 'Merge', hint: 'Keep existing values, fill in empty fields and add new tags' },
+  variant: { label: 'Keep Both', hint: 'Add the imported row as a variant with the same trigger' },
+  skip: { label: 'Skip', hint: 'Leave the existing row as it is' },
+};
+
+/** One source row on its way in. */
+export interface ImportCandidate {
+  location: string; // "Row 3", "Line 12", "Match 2"…
+  row: Partial<ShortcutData>;
+  errors: string[];
+  source?: string; // Shown instead of the trigger when the row could not be read at all
+}
+
+export interface ImportDiffRow {
+  location: string;
+  status: ImportStatus;
+  incoming: Partial<ShortcutData>;
+  existing?: ShortcutData;
+  result?: ShortcutData; // The row as it will be saved
+  changes: Array<keyof ShortcutData>;
+  errors: string[];
+  repeats?: string; // Location of an earlier row in this import with the same trigger
+  conflict?: ConflictResolution; // Set on the row that first collides with a loaded one
+  source?: string;
+}
+
+/** Sheet language labels ("Spanish", "English (US)", "") to the app's categories. */
+export const toLanguageCategory = (label?: string): LanguageCategory => {
+  const value = (label || '').toLowerCase();
+  return value.includes('span') || value === 'es' || value.startsWith('es-') ? 'spanish'
+    : value.includes('eng') || value === 'en' || value.startsWith('en-') ? 'english'
+    : 'all';
+};
+
+/** The label a row is saved with: its own while it still maps to the row's category, otherwise the category. */
+export const languageLabel = (item: Partial<ShortcutData>): string =>
+  item.language && toLanguageCategory(item.language) === (item.s || 'all') ? item.language
+    : item.s && item.s !== 'all' ? item.s : '';
+
+// --- CSV (RFC 4180) ---
+
+/**
+ * Splits delimited text into rows of cells: quoted cells may hold the
+ * delimiter, line breaks and `""` for a quote; CRLF, LF and CR all end a
+ * row (and become `\n` inside a cell), and a leading byte order mark is
+ * dropped. Blank lines are skipped.
+ */
+export const parseCsv = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let rowStart = 1;
+  let line = 1;
+  const source = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0].trim()) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else if (ch === '\r' || ch === '\n') {
+        if (ch === '\r' && source[i + 1] === '\n') i++;
+        line++;
+        cell += '\n';
+      } else cell += ch;
+    } else if (ch === '"' && !cell.trim()) {
+      quoted = true;
+      cell = '';
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+      rowStart = ++line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (quoted) throw new Error(`Row starting on line ${rowStart}: a quoted cell is never closed`);
+  if (cell || row.length > 0) endRow();
+  return rows;
+};
+
+/** Header names (lower-cased, spaces and underscores dropped) for each field; payload and row names both work. */
+const COLUMN_ALIASES: Record<string, keyof ShortcutData> = {
+  key: 'k', k: 'k', trigger: 'k', shortcut: 'k',
+  expansion: 'e', e: 'e', replace: 'e', phrase: 'e', content: 'e',
+  application: 'application', app: 'application',
+  description: 'd', desc: 'd', d: 'd', type: 'd',
+  language: 's', lang: 's', s: 's',
+  tags: 'tags',
+  style: 'style', fontstyle: 'style',
+  maincategory: 'mainCategory', subcategory: 'subcategory',
+  platform: 'platform', usagefrequency: 'usageFrequency', options: 'options',
+  id: 'id',
+};
+
+/** The backend's CSV layout when there is no header row. */
+const DEFAULT_COLUMNS: Array<keyof ShortcutData> = ['k', 'e', 'application', 'd', 's', 'tags'];
+
+const columnFor = (name: string): keyof ShortcutData | undefined =>
+  COLUMN_ALIASES[name.toLowerCase().replace(/[\s_-]/g, '')];
+
+/** Builds a partial row from named values, skipping empty ones and unknown names. */
+const toCandidate = (location: string, values: Array<[keyof ShortcutData | undefined, unknown]>): ImportCandidate => {
+  const row: Partial<ShortcutData> = {};
+  const errors: string[] = [];
+  values.forEach(([field, raw]) => {
+    if (!field || raw === undefined || raw === null) return;
+    const value = field === 'e' ? String(raw) : String(raw).trim();
+    if (!value.trim()) return;
+    if (field === 's') {
+      if (value.length > LIMITS.MAX_LANGUAGE_LEN) errors.push(`Language is over ${LIMITS.MAX_LANGUAGE_LEN} characters`);
+      row.language = value;
+      row.s = toLanguageCategory(value);
+    } else {
+      (row as Record<string, string>)[field] = value;
+    }
+  });
+  return { location, row, errors: [...errors, ...limitErrors(row)] };
+};
+
+export const csvCandidates = (text: string, delimiter = ','): ImportCandidate[] => {
+  const rows = parseCsv(text, delimiter);
+  const hasHeader = rows.length > 0 && columnFor(rows[0][0] || '') === 'k';
+  const columns = hasHeader ? rows[0].map(columnFor) : DEFAULT_COLUMNS;
+  return rows.slice(hasHeader ? 1 : 0).map((cells, idx) =>
+    toCandidate(`Row ${idx + (hasHeader ? 2 : 1)}`, cells.map((cell, col) => [columns[col], cell])));
+};
+
+export const jsonCandidates = (text: string): ImportCandidate[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (err: any) {
+    throw new Error(`Not valid JSON: ${err.message}`);
+  }
+  const items = Array.isArray(parsed) ? parsed : [parsed];
+  return items.map((item, idx) => {
+    const location = `Item ${idx + 1}`;
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      return { location, row: {}, errors: ['Not an object'], source: JSON.stringify(item) };
+    }
+    return toCandidate(location, Object.entries(item).map(([name, value]) => [columnFor(name), value]));
+  });
+};
+
+/** Rows from the Gboard, espanso and Apple readers, plus the entries they skipped. */
+export const parsedCandidates = ({ rows, skipped }: ImportParseResult): ImportCandidate[] => [
+  ...rows.map((row, idx) => toCandidate(`Row ${idx + 1}`, Object.entries(row) as Array<[keyof ShortcutData, unknown]>)),
+  ...skipped.map(skip => ({ location: skip.location, row: {}, errors: [skip.reason], source: skip.text })),
+];
+
+// --- DIFF ---
+
+/** Fields an import can change; the trigger is what rows are matched on. */
+const IMPORT_FIELDS: Array<keyof ShortcutData> = ['e', 's', 'd', 'style', 'tags', 'application', 'options', 'mainCategory', 'subcategory', 'platform', 'usageFrequency'];
+
+export const IMPORT_FIELD_LABELS: Partial<Record<keyof ShortcutData, string>> = {
+  e: 'Expansion', s: 'Language', d: 'Description', style: 'Style', tags: 'Tags', application: 'Application',
+  options: 'Options', mainCategory: 'Category', subcategory: 'Subcategory', platform: 'Platform', usageFrequency: 'Usage',
+};
+
+/** A field as the preview compares and shows it; the language by its label. */
+export const importFieldValue = (row: Partial<ShortcutData>, field: keyof ShortcutData): string =>
+  field === 's' ? languageLabel(row) : String(row[field] ?? '');
+
+const changedFields = (before: ShortcutData, after: ShortcutData) => IMPORT_FIELDS.filter(field => field === 's'
+  ? languageLabel(before).toLowerCase() !== languageLabel(after).toLowerCase()
+  : (before[field] ?? '') !== (after[field] ?? ''));
+
+const overwriteFields = (existing: ShortcutData, row: Partial<ShortcutData>): ShortcutData =>
+  ({ ...existing, ...row, k: row.k!, e: row.e! });
+
+const splitTags = (tags?: string) => (tags || '').split(',').map(tag => tag.trim()).filter(Boolean);
+
+const copyField = <K extends keyof ShortcutData>(target: ShortcutData, source: Partial<ShortcutData>, field: K) => {
+  target[field] = source[field] as ShortcutData[K];
+};
+
+/** Existing values win; imported ones fill the gaps, and tags and options are combined. */
+const mergeFields = (existing: ShortcutData, row: Partial<ShortcutData>): ShortcutData => {
+  const merged: ShortcutData = { ...existing };
+  IMPORT_FIELDS.forEach(field => {
+    const value = row[field];
+    if (value === undefined) return;
+    if (field === 'tags') {
+      const tags = splitTags(existing.tags);
+      const known = new Set(tags.map(tag => tag.toLowerCase()));
+      splitTags(value as string).forEach(tag => { if (!known.has(tag.toLowerCase())) { known.add(tag.toLowerCase()); tags.push(tag); } });
+      merged.tags = tags.join(', ');
+    } else if (field === 'options') {
+      merged.options = formatOptions([...parseOptions(existing.options), ...parseOptions(value as string)]);
+    } else if (field === 's') {
+      if (languageLabel(existing)) return;
+      merged.s = row.s!;
+      merged.language = row.language;
+    } else if (!existing[field]) {
+      copyField(merged, row, field);
+    }
+  });
+  return merged;
+};
+
+/**
+ * Matches candidates to loaded rows the way bulkImport does: by id when one
+ * is given, otherwise the first row with the same trigger. A row that would
+ * change a loaded one is a conflict, settled by `resolutionFor`; a variant
+ * gets an id of its own so it is added next to the loaded row. A trigger
+ * that appears twice in the import builds on what the earlier row produced
+ * and follows its resolution.
+ */
+export const diffImport = (
+  candidates: ImportCandidate[],
+  data: ShortcutData[],
+  resolutionFor: (location: string) => ConflictResolution = () => 'overwrite'
+): ImportDiffRow[] => {
+  const byId = new Map(data.map(item => [item.id!, item] as [string, ShortcutData]));
+  const byKey = new Map<string, ShortcutData>();
+  data.forEach(item => { if (!byKey.has(item.k)) byKey.set(item.k, item); });
+  // Trigger → where the earlier row in this import left it
+  const pending = new Map<string, { result: ShortcutData; location: string; isNew: boolean; resolution?: ConflictResolution }>();
+
+  return candidates.map(({ location, row, errors, source }) => {
+    if (errors.length > 0) return { location, status: 'error' as const, incoming: row, changes: [], errors, source };
+
+    const key = row.k!;
+    const earlier = pending.get(key);
+    const base = earlier?.result || (row.id && byId.get(row.id)) || byKey.get(key);
+    const common = { location, incoming: row, existing: earlier ? undefined : base, errors: [], repeats: earlier?.location };
+
+    if (!base) {
+      const result = { s: 'all', ...row, k: key, e: row.e! } as ShortcutData;
+      pending.set(key, { result, location, isNew: true });
+      return { ...common, status: 'insert' as const, result, changes: [] };
+    }
+
+    const overwritten = overwriteFields(base, row);
+    const isNew = !!earlier?.isNew;
+    const conflict = !earlier?.resolution && !isNew && changedFields(base, overwritten).length > 0
+      ? resolutionFor(location)
+      : undefined;
+    const resolution = earlier?.resolution || conflict;
+
+    if (resolution === 'skip') {
+      pending.set(key, { result: base, location, isNew, resolution });
+      return { ...common, status: 'skipped' as const, changes: changedFields(base, overwritten), conflict };
+    }
+    if (conflict === 'variant') {
+      const { id, ...fields } = row;
+      const result = { s: 'all', ...fields, k: key, e: row.e!, id: createLocalId() } as ShortcutData;
+      pending.set(key, { result, location, isNew: true, resolution });
+      return { ...common, status: 'insert' as const, result, changes: [], conflict };
+    }
+
+    const result = resolution === 'merge' ? mergeFields(base, row) : overwritten;
+    const changes = changedFields(base, result);
+    pending.set(key, { result, location, isNew, resolution });
+    return {
+      ...common,
+      status: isNew ? 'insert' as const : changes.length > 0 ? 'update' as const : 'unchanged' as const,
+      result,
+      changes,
+      conflict,
+    };
+  });
+};
+
+export const countByStatus = (rows: ImportDiffRow[]): Record<ImportStatus, number> => {
+  const counts: Record<ImportStatus, number> = { insert: 0, update: 0, unchanged: 0, skipped: 0, error: 0 };
+  rows.forEach(row => { counts[row.status]++; });
+  return counts;
+};
+
+/**
+ * What to save: the final state of each trigger. Repeated triggers are
+ * folded into one row, so the sheet sees a single upsert per trigger.
+ */
+export const rowsToImport = (rows: ImportDiffRow[]): ShortcutData[] => {
+  const latest = new Map<string, ShortcutData>();
+  rows.forEach(row => {
+    if (row.result && (row.status === 'insert' || row.status === 'update')) latest.set(row.result.k, row.result);
+  });
+  return [...latest.values()];
+};
@@ -1,15 +1,30 @@
+/// <reference types="vite/client" />
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 
-const rootElement = document.getElementById('root');
-if (!rootElement) {
-  throw new Error("Could not find root element to mount to");
-}
+const mount = () => {
+  const rootElement = document.getElementById('root');
+  if (!rootElement) {
+    throw new Error("Could not find root element to mount to");
+  }
+
+  const root = ReactDOM.createRoot(rootElement);
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+};
 
-const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+// Outside Apps Script, `?mockGas` swaps in an in-browser backend (e.g. ?mockGas=latency:800,failureRate:0.3).
+// It only exists on the dev server, so production bundles never include it.
+const mockGasParam = new URLSearchParams(window.location.search).get('mockGas');
+if (import.meta.env.DEV && mockGasParam !== null && !window.google?.script) {
+  import('./mockGasBackend')
+    .then(({ installMockGas, parseMockGasOptions }) => { installMockGas(parseMockGasOptions(mockGasParam)); })
+    .catch(err => console.error('Mock backend failed to load', err))
+    .finally(mount);
+} else {
+  mount();
+}
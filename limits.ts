@@ -0,0 +1,26 @@
+import { ShortcutData } from './types';
+
+// --- CONFIG: Backend Constraints ---
+
+/** Column limits the sheet backend enforces; checked in the browser before saving or importing. */
+export const LIMITS = {
+  MAX_KEY_LEN: 80,
+  MAX_FIELD_LEN: 50000,
+  MAX_TAGS_LEN: 512,
+  MAX_LANGUAGE_LEN: 64,
+  MAX_APP_LEN: 128,
+  MAX_DESC_LEN: 2000,
+};
+
+/** Every limit a row breaks, as messages for the import preview. */
+export const limitErrors = (row: Partial<ShortcutData>): string[] => {
+  const errors: string[] = [];
+  if (!row.k?.trim()) errors.push('Trigger is required');
+  else if (row.k.length > LIMITS.MAX_KEY_LEN) errors.push(`Trigger is over ${LIMITS.MAX_KEY_LEN} characters`);
+  if (!row.e?.trim()) errors.push('Expansion is required');
+  else if (row.e.length > LIMITS.MAX_FIELD_LEN) errors.push(`Expansion is over ${LIMITS.MAX_FIELD_LEN.toLocaleString()} characters`);
+  if ((row.tags?.length || 0) > LIMITS.MAX_TAGS_LEN) errors.push(`Tags are over ${LIMITS.MAX_TAGS_LEN} characters`);
+  if ((row.application?.length || 0) > LIMITS.MAX_APP_LEN) errors.push(`Application is over ${LIMITS.MAX_APP_LEN} characters`);
+  if ((row.d?.length || 0) > LIMITS.MAX_DESC_LEN) errors.push(`Description is over ${LIMITS.MAX_DESC_LEN} characters`);
+  return errors;
+};
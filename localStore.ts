@@ -0,0 +1,262 @@
+import { ShortcutData } from './types';
+import { EXPANSIONS_DATA, RETIRED_SEED_ROWS, SEED_TEMPLATES } from './data';
+import { withDetectedStyle } from './styleDetector';
+
+// --- CONFIG: IndexedDB Schema ---
+
+const DB_NAME = 'text-expansion-manager';
+export const DB_VERSION = 3;
+
+const STORE_SHORTCUTS = 'shortcuts';
+const STORE_META = 'meta';
+export const STORE_OUTBOX = 'outbox';
+const STORE_SNAPSHOT = 'snapshot';
+
+/** Stored rows carry a position so the seed order survives reloads. */
+type StoredShortcut = ShortcutData & { id: string; position: number };
+
+/**
+ * Schema migrations keyed by the version they upgrade *to*. They run in order
+ * inside the versionchange transaction, so each step can rely on the previous one.
+ */
+const MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db) => {
+    const shortcuts = db.createObjectStore(STORE_SHORTCUTS, { keyPath: 'id' });
+    shortcuts.createIndex('k', 'k', { unique: false });
+    db.createObjectStore(STORE_META);
+  },
+  2: (db) => {
+    db.createObjectStore(STORE_OUTBOX, { keyPath: 'seq', autoIncrement: true });
+  },
+  3: (db) => {
+    db.createObjectStore(STORE_SNAPSHOT);
+  },
+};
+
+// --- UTILITIES: Promisified IndexedDB ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('INDEXEDDB_UNAVAILABLE'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let v = event.oldVersion + 1; v <= DB_VERSION; v++) {
+        MIGRATIONS[v]?.(db, tx);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Local database is open in another tab with an older version'));
+  });
+
+  // Allow a later call to retry if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+export const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+const toStored = (item: ShortcutData, position: number): StoredShortcut => ({
+  ...item,
+  id: item.id || createLocalId(),
+  position,
+});
+
+const fromStored = ({ position, ...item }: StoredShortcut): ShortcutData => item;
+
+// --- SEED DATA ---
+
+/** Bumped whenever EXPANSIONS_DATA changes in a way stores seeded earlier should pick up. */
+const SEED_VERSION = 2;
+
+/** A year written in keycap digits, e.g. 2️⃣0️⃣2️⃣3️⃣. */
+const HARDCODED_YEAR = /2\uFE0F\u20E30\uFE0F\u20E3\d\uFE0F\u20E3\d\uFE0F\u20E3/;
+
+/**
+ * Seed data migrations keyed by the seed version they upgrade *to*, run on
+ * the rows stored so far. They never touch rows the user added, and skip
+ * seed rows that already hold what the migration would write.
+ */
+const SEED_MIGRATIONS: Record<number, (store: IDBObjectStore, rows: StoredShortcut[]) => void> = {
+  // Hardcoded date rows gave way to placeholder templates; retired rows the user has since rewritten are kept
+  2: (store, rows) => {
+    const retired = new Set(Array.from({ length: RETIRED_SEED_ROWS }, (_, idx) => `seed-${idx}`));
+    rows.filter(row => retired.has(row.id) && HARDCODED_YEAR.test(row.e)).forEach(row => store.delete(row.id));
+
+    const ids = new Set(rows.map(row => row.id));
+    const contents = new Set(rows.map(row => `${row.k}\n${row.e}`));
+    let position = rows.reduce((max, row) => Math.max(max, row.position), 0);
+    SEED_TEMPLATES
+      .filter(item => !ids.has(item.id!) && !contents.has(`${item.k}\n${item.e}`))
+      .forEach(item => store.put(toStored(item, ++position)));
+  },
+};
+
+const migrateSeedData = async (db: IDBDatabase, fromVersion: number) => {
+  const tx = db.transaction([STORE_SHORTCUTS, STORE_META], 'readwrite');
+  const store = tx.objectStore(STORE_SHORTCUTS);
+  const rows = await requestToPromise<StoredShortcut[]>(store.getAll());
+  for (let v = fromVersion + 1; v <= SEED_VERSION; v++) {
+    SEED_MIGRATIONS[v]?.(store, rows);
+  }
+  tx.objectStore(STORE_META).put(SEED_VERSION, 'seedVersion');
+  await transactionDone(tx);
+};
+
+// --- PUBLIC API ---
+
+export const createLocalId = (): string => {
+  const uuid = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  return `local-${uuid}`;
+};
+
+/**
+ * Loads every locally stored shortcut, seeding the store from EXPANSIONS_DATA
+ * the first time it is opened and bringing older seed data up to date after
+ * that. Detected styles are filled in on the way out.
+ */
+export const loadLocalShortcuts = async (): Promise<ShortcutData[]> => {
+  const db = await openDatabase();
+
+  const meta = db.transaction(STORE_META).objectStore(STORE_META);
+  const [seeded, seedVersion] = await Promise.all([
+    requestToPromise(meta.get('seededAt')),
+    requestToPromise<number | undefined>(meta.get('seedVersion')),
+  ]);
+  if (!seeded) {
+    const tx = db.transaction([STORE_SHORTCUTS, STORE_META], 'readwrite');
+    const store = tx.objectStore(STORE_SHORTCUTS);
+    EXPANSIONS_DATA.forEach((item, idx) => {
+      store.put(toStored({ ...item, id: item.id || `seed-${idx}` }, idx));
+    });
+    tx.objectStore(STORE_META).put(new Date().toISOString(), 'seededAt');
+    tx.objectStore(STORE_META).put(SEED_VERSION, 'seedVersion');
+    await transactionDone(tx);
+  } else if ((seedVersion || 1) < SEED_VERSION) {
+    // Stores seeded before seed versions existed count as version 1
+    await migrateSeedData(db, seedVersion || 1);
+  }
+
+  const rows = await requestToPromise<StoredShortcut[]>(
+    db.transaction(STORE_SHORTCUTS).objectStore(STORE_SHORTCUTS).getAll()
+  );
+  return rows.sort((a, b) => a.position - b.position).map(row => withDetectedStyle(fromStored(row)));
+};
+
+/**
+ * Inserts or replaces a shortcut. Existing rows keep their position;
+ * new rows are placed first, matching the optimistic UI.
+ */
+export const putLocalShortcut = async (item: ShortcutData): Promise<ShortcutData> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_SHORTCUTS, 'readwrite');
+  const store = tx.objectStore(STORE_SHORTCUTS);
+
+  const existing = item.id ? await requestToPromise<StoredShortcut | undefined>(store.get(item.id)) : undefined;
+  const stored = toStored(item, existing ? existing.position : -Date.now());
+  store.put(stored);
+
+  await transactionDone(tx);
+  return fromStored(stored);
+};
+
+/**
+ * Writes a batch in one transaction, so it is saved entirely or not at all.
+ * New rows go first in the order given: they share the slot a single new
+ * row would get, spread evenly so none of them tie.
+ */
+export const putLocalShortcuts = async (items: ShortcutData[]): Promise<ShortcutData[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_SHORTCUTS, 'readwrite');
+  const store = tx.objectStore(STORE_SHORTCUTS);
+
+  const existing = await Promise.all(items.map(item =>
+    item.id ? requestToPromise<StoredShortcut | undefined>(store.get(item.id)) : Promise.resolve(undefined)));
+  const slot = -Date.now();
+  const stored = items.map((item, idx) =>
+    toStored(item, existing[idx] ? existing[idx]!.position : slot - 1 + (idx + 1) / (items.length + 1)));
+  stored.forEach(row => store.put(row));
+
+  await transactionDone(tx);
+  return stored.map(fromStored);
+};
+
+export const deleteLocalShortcut = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_SHORTCUTS, 'readwrite');
+  tx.objectStore(STORE_SHORTCUTS).delete(id);
+  await transactionDone(tx);
+};
+
+// --- SNAPSHOT CACHE (Google Sheet mode) ---
+
+export interface CachedSnapshot {
+  shortcuts: ShortcutData[];
+  watermark: string | null;
+  schemaVersion: string | null;
+  savedAt: string;
+}
+
+const SNAPSHOT_KEY = 'latest';
+
+/** Returns the last successfully synced sheet snapshot, if any. */
+export const loadCachedSnapshot = async (): Promise<CachedSnapshot | null> => {
+  const db = await openDatabase();
+  const cached = await requestToPromise<CachedSnapshot | undefined>(
+    db.transaction(STORE_SNAPSHOT).objectStore(STORE_SNAPSHOT).get(SNAPSHOT_KEY)
+  );
+  return cached || null;
+};
+
+export const saveCachedSnapshot = async (snapshot: Omit<CachedSnapshot, 'savedAt'>): Promise<CachedSnapshot> => {
+  const db = await openDatabase();
+  const record: CachedSnapshot = { ...snapshot, savedAt: new Date().toISOString() };
+  const tx = db.transaction(STORE_SNAPSHOT, 'readwrite');
+  tx.objectStore(STORE_SNAPSHOT).put(record, SNAPSHOT_KEY);
+  await transactionDone(tx);
+  return record;
+};
+
+// --- TEMPLATE FIELD VALUES ---
+
+const fieldValuesKey = (id: string) => `fields:${id}`;
+
+/** What was last typed into a shortcut's fill-in form, keyed by field name. */
+export const loadFieldValues = async (id: string): Promise<Record<string, string>> => {
+  const db = await openDatabase();
+  const values = await requestToPromise<Record<string, string> | undefined>(
+    db.transaction(STORE_META).objectStore(STORE_META).get(fieldValuesKey(id))
+  );
+  return values || {};
+};
+
+export const saveFieldValues = async (id: string, values: Record<string, string>): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_META, 'readwrite');
+  tx.objectStore(STORE_META).put(values, fieldValuesKey(id));
+  await transactionDone(tx);
+};
@@ -0,0 +1,450 @@
+import { GoogleScriptRun, ShortcutRef, ShortcutPayload, RenamePayload, BulkImportPayload } from './types';
+import { GasMethod, GasArgs, GasResponses } from './gasClient';
+import { EXPANSIONS_DATA } from './data';
+
+// --- CONFIG: Mock Behaviour ---
+
+export interface MockGasOptions {
+  latency: number;      // Base delay per call in ms
+  jitter: number;       // Random extra delay in ms
+  failureRate: number;  // 0..1 chance a call fails with a network error
+  timeoutRate: number;  // 0..1 chance a call never answers (exercises the runGas TIMEOUT)
+  failMethods: string[]; // Methods that always fail
+  pageSize: number;     // Rows returned by beginShortcutsSnapshotHandler
+  schemaVersion: string;
+}
+
+const DEFAULT_OPTIONS: MockGasOptions = {
+  latency: 250,
+  jitter: 150,
+  failureRate: 0,
+  timeoutRate: 0,
+  failMethods: [],
+  pageSize: 200,
+  schemaVersion: 'mock-1',
+};
+
+/** A sheet row as the Apps Script backend serializes it. */
+interface MockRow {
+  id: string;
+  key: string;
+  expansion: string;
+  language: string;
+  description: string;
+  tags: string;
+  application: string;
+  fontStyle: string;
+  mainCategory: string;
+  subcategory: string;
+  platform: string;
+  usageFrequency: string;
+  options: string;
+  favorite: boolean;
+  updatedAt: string;
+}
+
+export interface MockGasController {
+  configure: (options: Partial<MockGasOptions>) => MockGasOptions;
+  reset: () => void;
+  rows: () => MockRow[];
+}
+
+declare global {
+  interface Window {
+    mockGas?: MockGasController;
+  }
+}
+
+// --- IN-MEMORY SHEET ---
+
+const LANGUAGE_LABELS: Record<string, string> = { english: 'English', spanish: 'Spanish', all: '' };
+
+const seedRows = (): MockRow[] => {
+  const seededAt = new Date().toISOString();
+  return EXPANSIONS_DATA.map((item, idx) => ({
+    id: item.id || `seed-${idx}`,
+    key: item.k,
+    expansion: item.e,
+    language: LANGUAGE_LABELS[item.s] || '',
+    description: item.d || '',
+    tags: item.tags || '',
+    application: item.application || '',
+    fontStyle: item.style || '',
+    mainCategory: item.mainCategory || '',
+    subcategory: item.subcategory || '',
+    platform: item.platform || '',
+    usageFrequency: item.usageFrequency || '',
+    options: item.options || '',
+    favorite: !!item.favorite,
+    updatedAt: seededAt,
+  }));
+};
+
+const createSheet = () => {
+  let rows = seedRows();
+  let backup: MockRow[] | null = null;
+  let nextId = rows.length;
+  const tombstones: Array<{ id: string; deletedAt: string }> = [];
+  const snapshots = new Map<string, MockRow[]>();
+  const copyCounts = new Map<string, number>();
+
+  const now = () => new Date().toISOString();
+
+  const remove = (predicate: (row: MockRow) => boolean): number => {
+    const before = rows.length;
+    const deletedAt = now();
+    rows = rows.filter(row => {
+      if (!predicate(row)) return true;
+      tombstones.push({ id: row.id, deletedAt });
+      return false;
+    });
+    return before - rows.length;
+  };
+
+  const dedupe = (scope: (row: MockRow) => boolean): number => {
+    const seen = new Set<string>();
+    const duplicateIds = new Set<string>();
+    rows.forEach(row => {
+      if (!scope(row)) return;
+      const signature = `${row.key}\u0000${row.expansion}`;
+      if (seen.has(signature)) duplicateIds.add(row.id);
+      seen.add(signature);
+    });
+    return remove(row => duplicateIds.has(row.id));
+  };
+
+  const upsert = (payload: ShortcutPayload): { row: MockRow; inserted: boolean } => {
+    const key = String(payload.key || '').trim();
+    const expansion = String(payload.expansion ?? '');
+    if (!key) throw new Error('Key is required');
+    if (!expansion) throw new Error(`Expansion is required for "${key}"`);
+
+    // Rows are addressed by id; imports without one update the first row with that trigger
+    const existing = payload.id ? rows.find(row => row.id === payload.id) : rows.find(row => row.key === key);
+    const fields: Partial<MockRow> = { key, expansion, updatedAt: now() };
+    (['language', 'description', 'tags', 'application', 'fontStyle', 'mainCategory', 'subcategory', 'platform', 'usageFrequency', 'options'] as const)
+      .forEach(field => {
+        if (payload[field] !== undefined) fields[field] = String(payload[field] ?? '');
+      });
+
+    if (existing) {
+      Object.assign(existing, fields);
+      return { row: existing, inserted: false };
+    }
+    const row: MockRow = {
+      id: payload.id ? String(payload.id) : `mock-${nextId++}`,
+      key,
+      expansion,
+      language: '', description: '', tags: '', application: '', fontStyle: '',
+      mainCategory: '', subcategory: '', platform: '', usageFrequency: '', options: '', favorite: false,
+      updatedAt: now(),
+      ...fields,
+    };
+    rows.push(row);
+    return { row, inserted: true };
+  };
+
+  return {
+    get rows() { return rows; },
+    now,
+    remove,
+    dedupe,
+    upsert,
+    snapshots,
+    tombstones,
+    copyCounts,
+    backup: () => { backup = rows.map(row => ({ ...row })); return backup.length; },
+    restore: () => {
+      if (!backup) throw new Error('No backup found in Drive');
+      rows = backup.map(row => ({ ...row, updatedAt: now() }));
+      return rows.length;
+    },
+  };
+};
+
+// --- BULK IMPORT PARSING ---
+
+const parseCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  return cells.map(c => c.trim());
+};
+
+/** JSON records are taken as payloads; upsert checks the fields it needs. */
+const parseImportText = (mode: string, text: string): ShortcutPayload[] => {
+  if (mode === 'json') {
+    const parsed: unknown = JSON.parse(text);
+    if (!Array.isArray(parsed)) throw new Error('JSON import must be an array of objects');
+    return parsed;
+  }
+
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length > 0 && /^key\s*,/i.test(lines[0])) lines.shift(); // Header row
+  return lines.map(line => {
+    const [key, expansion, application, description, language, tags] = parseCsvLine(line);
+    return { key, expansion, application, description, language, tags };
+  });
+};
+
+// --- INSTALLER ---
+
+const ok = <T extends object>(extra: T) => ({ ok: true as const, ...extra });
+
+/** Outbox entries queued before row ids existed still send a bare trigger. */
+const matchesTarget = (row: MockRow, target: ShortcutRef | string) =>
+  typeof target === 'string' ? row.key === target : row.id === target.id;
+
+const targetLabel = (target: ShortcutRef | string) => typeof target === 'string' ? target : target.key;
+
+/**
+ * Installs an in-browser stand-in for `google.script.run` backed by an
+ * in-memory sheet seeded from EXPANSIONS_DATA. Returns a controller that is
+ * also exposed as `window.mockGas` for tweaking latency and failures live.
+ */
+export const installMockGas = (overrides: Partial<MockGasOptions> = {}): MockGasController => {
+  let options: MockGasOptions = { ...DEFAULT_OPTIONS, ...overrides };
+  let sheet = createSheet();
+
+  const page = (rows: MockRow[], offset: number, limit: number) => {
+    const shortcuts = rows.slice(offset, offset + limit);
+    const nextOffset = offset + shortcuts.length;
+    return { shortcuts, offset: nextOffset, hasMore: nextOffset < rows.length };
+  };
+
+  const launcher = (name: string) => () => {
+    console.info(`[mockGas] ${name} would open a dialog in Apps Script`);
+    return ok({ message: `${name} (mock)` });
+  };
+
+  // Typed against the RPC contract, so the mock cannot drift from what runGas checks
+  const handlers: { [M in GasMethod]: (...args: GasArgs<M>) => GasResponses[M] } = {
+    // --- Core App Handlers ---
+    getAppBootstrapData: () => ok({ schemaVersion: options.schemaVersion, total: sheet.rows.length, user: 'mock@localhost' }),
+    beginShortcutsSnapshotHandler: () => {
+      const token = `snap-${Date.now().toString(36)}-${sheet.snapshots.size}`;
+      const rows = sheet.rows.map(row => ({ ...row }));
+      sheet.snapshots.set(token, rows);
+      return ok({ snapshotToken: token, total: rows.length, watermark: sheet.now(), ...page(rows, 0, options.pageSize) });
+    },
+    fetchShortcutsBatch: (token, offset, limit) => {
+      const rows = sheet.snapshots.get(token);
+      if (!rows) return { ok: false, message: 'Snapshot expired - please sync again' };
+      return ok(page(rows, offset, limit));
+    },
+    fetchShortcutsDelta: (since) => {
+      const watermark = sheet.now();
+      return ok({
+        shortcuts: sheet.rows.flatMap((row, position) => row.updatedAt > since ? [{ ...row, position }] : []),
+        deleted: sheet.tombstones.filter(t => t.deletedAt > since).map(t => t.id),
+        watermark,
+        hasMore: false,
+      });
+    },
+    upsertShortcut: (payload) => {
+      const { row, inserted } = sheet.upsert(payload);
+      return ok({ message: inserted ? `Added "${row.key}"` : `Updated "${row.key}"`, id: row.id });
+    },
+    renameShortcut: ({ id, oldKey, newKey }: RenamePayload) => {
+      const row = sheet.rows.find(r => r.id === id) || sheet.rows.find(r => r.key === oldKey);
+      if (!row) return { ok: false, message: `Shortcut "${oldKey}" not found` };
+      if (sheet.rows.some(r => r !== row && r.key === newKey)) return { ok: false, message: `Trigger "${newKey}" is already in use` };
+      row.key = newKey;
+      row.updatedAt = sheet.now();
+      return ok({ message: `Renamed "${oldKey}" to "${newKey}"`, id: row.id });
+    },
+    deleteShortcut: (target: ShortcutRef | string) => {
+      const removed = sheet.remove(row => matchesTarget(row, target));
+      if (removed === 0) return { ok: false, message: `Shortcut "${targetLabel(target)}" not found` };
+      return ok({ removed });
+    },
+    toggleFavorite: (target: ShortcutRef | string) => {
+      const matches = sheet.rows.filter(row => matchesTarget(row, target));
+      if (matches.length === 0) return { ok: false, message: `Shortcut "${targetLabel(target)}" not found` };
+      const favorite = !matches[0].favorite;
+      matches.forEach(row => { row.favorite = favorite; row.updatedAt = sheet.now(); });
+      return ok({ favorite });
+    },
+    handleClipboardFavorite: (target: ShortcutRef | string) => {
+      // The real backend promotes frequently copied snippets; three copies is enough here
+      const counter = typeof target === 'string' ? target : target.id;
+      const count = (sheet.copyCounts.get(counter) || 0) + 1;
+      sheet.copyCounts.set(counter, count);
+      const promote = count >= 3;
+      if (promote) sheet.rows.filter(row => matchesTarget(row, target) && !row.favorite).forEach(row => { row.favorite = true; row.updatedAt = sheet.now(); });
+      return ok({ favorite: promote, copies: count });
+    },
+    bulkImport: ({ mode, text, defaultApplication, defaultLanguage }: BulkImportPayload) => {
+      const records = parseImportText(mode, text);
+      let inserted = 0;
+      let updated = 0;
+      const errors: Array<{ row: number, message: string }> = [];
+      records.forEach((record, idx) => {
+        try {
+          const { inserted: isNew } = sheet.upsert({
+            ...record,
+            application: record.application || defaultApplication,
+            language: record.language || defaultLanguage,
+          });
+          if (isNew) inserted++; else updated++;
+        } catch (err: any) {
+          errors.push({ row: idx + 1, message: err.message });
+        }
+      });
+      return ok({ inserted, updated, errors });
+    },
+
+    // --- Master Automation Framework ---
+    MASTER_openDashboard: launcher('MASTER_openDashboard'),
+    MASTER_openColab: launcher('MASTER_openColab'),
+    MASTER_openGitHub: launcher('MASTER_openGitHub'),
+    MASTER_showRecentLogsDialog: launcher('MASTER_showRecentLogsDialog'),
+    MASTER_showLinkManagerDialog: launcher('MASTER_showLinkManagerDialog'),
+    MASTER_createProjectFolder: () => ok({ folderUrl: 'https://drive.google.com/drive/folders/mock' }),
+    MASTER_openProjectFolder: launcher('MASTER_openProjectFolder'),
+
+    // --- Python AI Tools ---
+    openMLCategorizer: launcher('openMLCategorizer'),
+    openDataQuality: launcher('openDataQuality'),
+    openDuplicateFinder: launcher('openDuplicateFinder'),
+    openAnalytics: launcher('openAnalytics'),
+    openBackupSystem: launcher('openBackupSystem'),
+    openDriveBridge: launcher('openDriveBridge'),
+    openFontCategorizer: launcher('openFontCategorizer'),
+    openTextExpanderCategorizer: launcher('openTextExpanderCategorizer'),
+    openToolsFolder: launcher('openToolsFolder'),
+    configurePythonURLs: launcher('configurePythonURLs'),
+
+    // --- Maintenance & Cache ---
+    cleanupDuplicateShortcuts: () => ok({ removed: sheet.dedupe(() => true) }),
+    cleanupDuplicateFavorites: () => ok({ removed: sheet.dedupe(row => row.favorite) }),
+    cleanupAllDuplicates: () => ok({ removed: sheet.dedupe(row => row.favorite) + sheet.dedupe(() => true) }),
+    findEmptyEntries: () => {
+      const count = sheet.rows.filter(row => !row.key.trim() || !row.expansion.trim()).length;
+      return ok({ count, message: `Found ${count} empty entries` });
+    },
+    removeEmptyEntries: () => ok({ removed: sheet.remove(row => !row.key.trim() || !row.expansion.trim()) }),
+    generateCleanupReport: () => ok({ message: `${sheet.rows.length} rows, ${sheet.tombstones.length} removed this session` }),
+
+    warmShortcutsCache: () => ok({ cached: sheet.rows.length }),
+    rebuildShortcutsCache: () => ok({ cached: sheet.rows.length }),
+    invalidateShortcutsCache: () => ok({ message: 'Cache cleared' }),
+    showCacheStatistics: launcher('showCacheStatistics'),
+    testCachePerformance: () => ok({ message: `Read ${sheet.rows.length} rows in ${Math.round(options.latency)}ms` }),
+
+    // --- Advanced Features ---
+    addEnhancedDropdowns: () => ok({ message: 'Dropdowns added' }),
+    removeEnhancedDropdowns: () => ok({ message: 'Dropdowns removed' }),
+    refreshEnhancedDropdowns: () => ok({ message: 'Dropdowns refreshed' }),
+    exportAllTEMData: () => ok({ message: `Exported ${sheet.rows.length} rows` }),
+    importTEMData: launcher('importTEMData'),
+    backupTEMToDrive: () => ok({ message: `Backed up ${sheet.backup()} rows` }),
+    restoreFromBackup: () => ok({ message: `Restored ${sheet.restore()} rows` }),
+
+    // --- Info & Stats ---
+    showTEMStatistics: launcher('showTEMStatistics'),
+    openTextExpanderHelpDialog: launcher('openTextExpanderHelpDialog'),
+    showTEMAbout: launcher('showTEMAbout'),
+  };
+
+  const dispatch = <M extends GasMethod>(
+    method: M,
+    args: GasArgs<M>,
+    onSuccess?: (data: any) => void,
+    onFailure?: (error: Error) => void
+  ) => {
+    const delay = options.latency + Math.random() * options.jitter;
+    setTimeout(() => {
+      if (Math.random() < options.timeoutRate) {
+        console.warn(`[mockGas] ${method} dropped (simulated timeout)`);
+        return;
+      }
+      if (options.failMethods.includes(method) || Math.random() < options.failureRate) {
+        onFailure?.(new Error('NetworkError: we were unable to connect (mock)'));
+        return;
+      }
+      try {
+        // Round-trip through JSON like the real google.script.run serializer
+        const result = JSON.parse(JSON.stringify(handlers[method](...args) ?? null));
+        onSuccess?.(result);
+      } catch (err: any) {
+        onFailure?.(err instanceof Error ? err : new Error(String(err)));
+      }
+    }, delay);
+  };
+
+  const createRunner = (onSuccess?: (data: any) => void, onFailure?: (error: Error) => void): GoogleScriptRun => {
+    const runner = {
+      withSuccessHandler: (handler: (data: any) => void) => createRunner(handler, onFailure),
+      withFailureHandler: (handler: (error: Error) => void) => createRunner(onSuccess, handler),
+    } as GoogleScriptRun;
+    const bind = <M extends GasMethod>(method: M) => {
+      runner[method] = ((...args: GasArgs<M>) => dispatch(method, args, onSuccess, onFailure)) as GoogleScriptRun[M];
+    };
+    (Object.keys(handlers) as GasMethod[]).forEach(bind);
+    return runner;
+  };
+
+  window.google = {
+    script: {
+      run: createRunner(),
+      host: { close: () => console.info('[mockGas] host.close()') },
+    },
+  };
+
+  const controller: MockGasController = {
+    configure: (next) => (options = { ...options, ...next }),
+    reset: () => { sheet = createSheet(); },
+    rows: () => sheet.rows.map(row => ({ ...row })),
+  };
+  window.mockGas = controller;
+  console.info('[mockGas] Installed mock google.script.run', options);
+  return controller;
+};
+
+/**
+ * Reads options from the `mockGas` query parameter,
+ * e.g. `?mockGas=latency:800,failureRate:0.2,failMethods:upsertShortcut|toggleFavorite`.
+ */
+export const parseMockGasOptions = (param: string): Partial<MockGasOptions> => {
+  const options: Partial<MockGasOptions> = {};
+  param.split(',').filter(Boolean).forEach(pair => {
+    const [name, raw = ''] = pair.split(':');
+    switch (name) {
+      case 'failMethods':
+        options.failMethods = raw.split('|').filter(Boolean);
+        break;
+      case 'schemaVersion':
+        options.schemaVersion = raw;
+        break;
+      case 'latency':
+      case 'jitter':
+      case 'failureRate':
+      case 'timeoutRate':
+      case 'pageSize': {
+        const value = Number(raw);
+        if (!Number.isNaN(value)) options[name] = value;
+        break;
+      }
+      default:
+        console.warn(`[mockGas] Unknown option "${name}"`);
+    }
+  });
+  return options;
+};
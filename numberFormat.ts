@@ -0,0 +1,114 @@
+import { LanguageCategory } from './types';
+
+// --- DIGIT STYLES ---
+
+export type DigitStyle = 'plain' | 'keycap' | 'circled' | 'double';
+
+export const DIGIT_STYLE_LABELS: Record<DigitStyle, string> = {
+  plain: 'Plain (123)',
+  keycap: 'Keycap (1️⃣2️⃣3️⃣)',
+  circled: 'Circled (①②③)',
+  double: 'Double-Struck (𝟙𝟚𝟛)',
+};
+
+const KEYCAP = '\uFE0F\u20E3';
+const KEYCAP_TEN = '🔟';
+
+const DIGIT_TABLES: Record<Exclude<DigitStyle, 'plain' | 'keycap'>, string[]> = {
+  circled: ['⓪', ...Array.from({ length: 9 }, (_, idx) => String.fromCodePoint(0x2460 + idx))],
+  double: Array.from({ length: 10 }, (_, idx) => String.fromCodePoint(0x1D7D8 + idx)),
+};
+
+/** ⑩–⑳, ㉑–㉟ and ㊱–㊿: whole numbers up to 50 have a circled glyph of their own. */
+const circledNumber = (n: number): string | undefined => {
+  if (n >= 10 && n <= 20) return String.fromCodePoint(0x2469 + n - 10);
+  if (n >= 21 && n <= 35) return String.fromCodePoint(0x3251 + n - 21);
+  if (n >= 36 && n <= 50) return String.fromCodePoint(0x32B1 + n - 36);
+  return undefined;
+};
+
+/** Restyles every ASCII digit in `text`; separators and letters are kept. */
+export const styleDigits = (text: string, style: DigitStyle): string => {
+  if (style === 'plain') return text;
+  if (style === 'keycap') return text.replace(/\d/g, digit => digit + KEYCAP);
+  const table = DIGIT_TABLES[style];
+  return text.replace(/\d/g, digit => table[Number(digit)]);
+};
+
+// --- GROUPING & ORDINALS ---
+
+/** 1234567 → 1,234,567. The sign and any decimals are kept. */
+export const groupThousands = (digits: string, separator = ','): string =>
+  digits.replace(/^(-?)(\d+)/, (_, sign, whole: string) => sign + whole.replace(/\B(?=(\d{3})+(?!\d))/g, separator));
+
+const SUPERSCRIPT_LETTERS: Record<string, string> = { s: 'ˢ', t: 'ᵗ', n: 'ⁿ', d: 'ᵈ', r: 'ʳ', h: 'ʰ', o: 'ᵒ', a: 'ᵃ' };
+
+/** English st / nd / rd / th, Spanish º; spelled with superscript letters. */
+export const ordinalSuffix = (n: number, language: LanguageCategory = 'english'): string => {
+  let suffix = 'o';
+  if (language !== 'spanish') {
+    const lastTwo = Math.abs(n) % 100;
+    const last = Math.abs(n) % 10;
+    suffix = lastTwo >= 11 && lastTwo <= 13 ? 'th' : last === 1 ? 'st' : last === 2 ? 'nd' : last === 3 ? 'rd' : 'th';
+  }
+  return [...suffix].map(ch => SUPERSCRIPT_LETTERS[ch]).join('');
+};
+
+// --- FORMATTING ---
+
+export interface NumberFormatOptions {
+  style: DigitStyle;
+  group?: boolean; // Thousands separators
+  ordinal?: boolean; // Superscript ordinal suffix
+  language?: LanguageCategory; // Picks the ordinal suffix
+}
+
+/**
+ * Formats an integer the way the hand-written seed rows do: `1️⃣,0️⃣0️⃣0️⃣`,
+ * `1️⃣1️⃣ᵗʰ`, and 🔟 when the number (or its leading group) is exactly ten.
+ * Circled numbers up to 50 use their single-glyph forms.
+ */
+export const formatNumber = (value: number, { style, group = false, ordinal = false, language }: NumberFormatOptions): string => {
+  const n = Math.trunc(value);
+  const suffix = ordinal ? ordinalSuffix(n, language) : '';
+  if (style === 'circled' && !group) {
+    const single = circledNumber(n);
+    if (single) return single + suffix;
+  }
+
+  const digits = group ? groupThousands(String(n)) : String(n);
+  if (style === 'keycap') {
+    const [lead, ...rest] = digits.split(',');
+    if (lead === '10') return [KEYCAP_TEN, ...rest.map(part => styleDigits(part, style))].join(',') + suffix;
+  }
+  return styleDigits(digits, style) + suffix;
+};
+
+/** Parses what a user typed (`1,000`, ` 42 `) into an integer, or null. */
+export const parseInteger = (text: string): number | null => {
+  const cleaned = text.replace(/[,\s_]/g, '');
+  return /^-?\d+$/.test(cleaned) ? Number(cleaned) : null;
+};
+
+// --- RANGES ---
+
+/** Upper bound on generated rows, so one typo cannot flood the sheet. */
+export const MAX_RANGE_ROWS = 1000;
+
+/**
+ * One trigger and expansion per number from `from` to `to` (either
+ * direction). `{n}` in the trigger pattern is replaced with the plain number.
+ */
+export const generateRange = (
+  from: number,
+  to: number,
+  triggerPattern: string,
+  options: NumberFormatOptions
+): Array<{ k: string; e: string }> => {
+  const step = from <= to ? 1 : -1;
+  const count = Math.min(Math.abs(to - from) + 1, MAX_RANGE_ROWS);
+  return Array.from({ length: count }, (_, idx) => {
+    const n = from + idx * step;
+    return { k: triggerPattern.replace(/\{n\}/g, String(n)), e: formatNumber(n, options) };
+  });
+};
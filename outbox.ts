@@ -0,0 +1,142 @@
+import { openDatabase, requestToPromise, transactionDone, STORE_OUTBOX } from './localStore';
+import { GasArgs, isTransportFailure } from './gasClient';
+import { ShortcutData, ShortcutPayload } from './types';
+
+// --- CONFIG: Replay Policy ---
+
+/** After this many automatic attempts an entry is parked as failed until retried by hand. */
+export const MAX_AUTO_ATTEMPTS = 5;
+
+export type OutboxMethod = 'upsertShortcut' | 'deleteShortcut' | 'toggleFavorite';
+
+export interface OutboxEntry {
+  seq?: number;
+  method: OutboxMethod;
+  args: GasArgs<OutboxMethod>;
+  key: string; // Trigger the mutation targets, shown in the queue panel
+  targetId?: string; // Row the mutation targets, used for card badges (absent on entries queued before row ids)
+  status: 'pending' | 'failed';
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+}
+
+export const OUTBOX_LABELS: Record<OutboxMethod, string> = {
+  upsertShortcut: 'Save',
+  deleteShortcut: 'Delete',
+  toggleFavorite: 'Favorite',
+};
+
+// --- STORAGE ---
+
+/** Returns queued mutations in the order they were made. */
+export const listOutbox = async (): Promise<OutboxEntry[]> => {
+  const db = await openDatabase();
+  return requestToPromise<OutboxEntry[]>(db.transaction(STORE_OUTBOX).objectStore(STORE_OUTBOX).getAll());
+};
+
+export const enqueueMutation = async (
+  method: OutboxMethod,
+  args: GasArgs<OutboxMethod>,
+  target: { key: string; id?: string }
+): Promise<OutboxEntry> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_OUTBOX, 'readwrite');
+  const entry: OutboxEntry = {
+    method,
+    args,
+    key: target.key,
+    targetId: target.id,
+    status: 'pending',
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+  };
+  const seq = await requestToPromise(tx.objectStore(STORE_OUTBOX).add(entry));
+  await transactionDone(tx);
+  return { ...entry, seq: seq as number };
+};
+
+const putEntry = async (entry: OutboxEntry) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_OUTBOX, 'readwrite');
+  tx.objectStore(STORE_OUTBOX).put(entry);
+  await transactionDone(tx);
+};
+
+export const discardMutation = async (seq: number) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_OUTBOX, 'readwrite');
+  tx.objectStore(STORE_OUTBOX).delete(seq);
+  await transactionDone(tx);
+};
+
+/** Moves a parked entry back to pending with a fresh attempt budget. */
+export const resetMutation = async (seq: number) => {
+  const entries = await listOutbox();
+  const entry = entries.find(e => e.seq === seq);
+  if (entry) await putEntry({ ...entry, status: 'pending', attempts: 0, lastError: undefined });
+};
+
+// --- REPLAY ---
+
+/**
+ * Lays queued changes over rows fresh from the sheet, which has not seen
+ * them yet, so a completed sync does not make pending edits vanish.
+ */
+export const applyOutbox = (
+  rows: ShortcutData[],
+  entries: OutboxEntry[],
+  fromPayload: (payload: ShortcutPayload) => ShortcutData
+): ShortcutData[] => entries.reduce((next, entry) => {
+  const matches = (row: ShortcutData) => entry.targetId ? row.id === entry.targetId : row.k === entry.key;
+  if (entry.method === 'deleteShortcut') return next.filter(row => !matches(row));
+  if (entry.method === 'toggleFavorite') return next.map(row => matches(row) ? { ...row, favorite: !row.favorite } : row);
+  const saved = fromPayload(entry.args[0] as ShortcutPayload);
+  const idx = next.findIndex(matches);
+  // Saves do not carry the favorite flag, so the row keeps its own
+  return idx < 0 ? [saved, ...next] : next.map((row, i) => i === idx ? { ...saved, favorite: row.favorite } : row);
+}, rows);
+
+/** Entries queued before row ids existed are matched on their trigger. */
+const targetOf = (entry: OutboxEntry) => entry.targetId || `key:${entry.key}`;
+
+/**
+ * Sends queued mutations strictly in order. A transport failure stops the
+ * replay, since everything after it would fail the same way. An entry the
+ * sheet rejects is parked as failed at once; later changes to that row wait
+ * behind it, so none can overtake it, but other rows carry on.
+ */
+export const flushOutbox = async (
+  send: (entry: OutboxEntry) => Promise<void>
+): Promise<{ sent: number; remaining: number }> => {
+  const entries = await listOutbox();
+  const blocked = new Set<string>(); // Rows with a parked entry
+  let sent = 0;
+
+  for (const entry of entries) {
+    const target = targetOf(entry);
+    if (entry.status === 'failed' || blocked.has(target)) {
+      blocked.add(target);
+      continue;
+    }
+
+    try {
+      await send(entry);
+      await discardMutation(entry.seq!);
+      sent++;
+    } catch (err: any) {
+      const rejected = !isTransportFailure(err);
+      const attempts = entry.attempts + 1;
+      await putEntry({
+        ...entry,
+        attempts,
+        lastError: err?.message || String(err),
+        status: rejected || attempts >= MAX_AUTO_ATTEMPTS ? 'failed' : 'pending',
+      });
+      if (!rejected) break;
+      blocked.add(target);
+    }
+  }
+
+  return { sent, remaining: entries.length - sent };
+};
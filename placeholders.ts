@@ -0,0 +1,141 @@
+import { LanguageCategory } from './types';
+import { styleDigits, groupThousands, ordinalSuffix, parseInteger } from './numberFormat';
+
+// --- PLACEHOLDERS ---
+
+/**
+ * Expansions can hold `{token}` placeholders that are filled in when the
+ * shortcut is copied, so date rows no longer go stale:
+ *
+ *   {date}            locale date          {date:DD/MM/YYYY}   custom format
+ *   {time}            locale time          {time:HH:mm}        custom format
+ *   {year} {month} {day} {weekday} {monthname}
+ *   {clipboard}       current clipboard text
+ *
+ * Any token takes `|modifier`s (keycap, circled, double, group, ordinal,
+ * upper, lower), e.g. `{year|keycap}` → 2️⃣0️⃣2️⃣6️⃣. Only single
+ * braces are placeholders; `{{…}}` and unknown tokens are left as written.
+ */
+export interface PlaceholderContext {
+  now: Date;
+  locale?: string;
+  clipboard?: string; // Left unresolved when missing (e.g. in card previews)
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Adds a superscript ordinal to a numeric value; anything else is left alone. */
+const ordinal = (value: string, { locale }: PlaceholderContext) => {
+  const n = parseInteger(value);
+  return n === null ? value : value + ordinalSuffix(n, locale?.startsWith('es') ? 'spanish' : 'english');
+};
+
+/** Applied left to right, e.g. `{day|ordinal|keycap}` → 1️⃣9️⃣ᵗʰ. Digit styles come from numberFormat.ts. */
+export const PLACEHOLDER_MODIFIERS: Record<string, (value: string, ctx: PlaceholderContext) => string> = {
+  keycap: value => styleDigits(value, 'keycap'),
+  circled: value => styleDigits(value, 'circled'),
+  double: value => styleDigits(value, 'double'),
+  group: value => groupThousands(value),
+  ordinal,
+  upper: value => value.toUpperCase(),
+  lower: value => value.toLowerCase(),
+};
+
+const name = (date: Date, locale: string | undefined, options: Intl.DateTimeFormatOptions) =>
+  date.toLocaleString(locale, options);
+
+/**
+ * Moment-style date format: YYYY YY MMMM MMM MM M DD D dddd ddd HH H hh h mm
+ * ss A. Text in [brackets] is copied as-is.
+ */
+export const formatDate = (date: Date, format: string, locale?: string): string =>
+  format.replace(/\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|ss|A/g, (token, literal) => {
+    if (literal !== undefined) return literal;
+    const hours12 = date.getHours() % 12 || 12;
+    switch (token) {
+      case 'YYYY': return String(date.getFullYear());
+      case 'YY': return String(date.getFullYear()).slice(-2);
+      case 'MMMM': return name(date, locale, { month: 'long' });
+      case 'MMM': return name(date, locale, { month: 'short' });
+      case 'MM': return pad(date.getMonth() + 1);
+      case 'M': return String(date.getMonth() + 1);
+      case 'DD': return pad(date.getDate());
+      case 'D': return String(date.getDate());
+      case 'dddd': return name(date, locale, { weekday: 'long' });
+      case 'ddd': return name(date, locale, { weekday: 'short' });
+      case 'HH': return pad(date.getHours());
+      case 'H': return String(date.getHours());
+      case 'hh': return pad(hours12);
+      case 'h': return String(hours12);
+      case 'mm': return pad(date.getMinutes());
+      case 'ss': return pad(date.getSeconds());
+      default: return date.getHours() < 12 ? 'AM' : 'PM';
+    }
+  });
+
+/** Value of one token, or undefined when the token (or its argument) is not understood. */
+const TOKENS: Record<string, (ctx: PlaceholderContext, arg?: string) => string | undefined> = {
+  date: ({ now, locale }, arg) => arg ? formatDate(now, arg, locale) : now.toLocaleDateString(locale),
+  time: ({ now, locale }, arg) => arg ? formatDate(now, arg, locale) : now.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' }),
+  year: ({ now }) => String(now.getFullYear()),
+  month: ({ now }) => pad(now.getMonth() + 1),
+  day: ({ now }) => pad(now.getDate()),
+  weekday: ({ now, locale }) => name(now, locale, { weekday: 'long' }),
+  monthname: ({ now, locale }) => name(now, locale, { month: 'long' }),
+  clipboard: ({ clipboard }) => clipboard,
+};
+
+// `{name}`, `{name:arg}`, `{name|mod|mod}`; a brace next to another brace belongs to a `{{field}}`
+const PLACEHOLDER = /(?<!\{)\{([a-z]+)(?::([^{}|]+))?((?:\|[a-z]+)*)\}(?!\})/gi;
+
+export interface PlaceholderToken {
+  token: string; // As written, e.g. `{day|keycap}`
+  name: string;
+  arg?: string;
+  modifiers: string[];
+}
+
+/** Rewrites every single-brace token, known or not; used to resolve them and to convert them for other expanders. */
+export const replacePlaceholders = (text: string, replace: (placeholder: PlaceholderToken) => string): string =>
+  text.replace(PLACEHOLDER, (token, name: string, arg: string | undefined, mods: string) =>
+    replace({ token, name: name.toLowerCase(), arg, modifiers: mods.split('|').slice(1).map(mod => mod.toLowerCase()) }));
+
+/** Fills in every known placeholder. Unknown tokens and modifiers leave the whole token untouched. */
+export const resolvePlaceholders = (text: string, ctx: PlaceholderContext): string =>
+  replacePlaceholders(text, ({ token, name, arg, modifiers }) => {
+    let value = TOKENS[name]?.(ctx, arg);
+    if (value === undefined) return token;
+
+    for (const mod of modifiers) {
+      const apply = PLACEHOLDER_MODIFIERS[mod];
+      if (!apply) return token;
+      value = apply(value, ctx);
+    }
+    return value;
+  });
+
+/** True when the text has at least one placeholder this module can fill in. */
+export const hasPlaceholders = (text: string): boolean =>
+  [...text.matchAll(PLACEHOLDER)].some(([, tokenName]) => tokenName.toLowerCase() in TOKENS);
+
+export const usesClipboard = (text: string): boolean =>
+  [...text.matchAll(PLACEHOLDER)].some(([, tokenName]) => tokenName.toLowerCase() === 'clipboard');
+
+/** Locale for month and weekday names, following the row's language. */
+export const placeholderLocale = (language: LanguageCategory): string | undefined =>
+  language === 'spanish' ? 'es-ES' : language === 'english' ? 'en-US' : undefined;
+
+/**
+ * Resolves a template for copying. The clipboard is only read when the
+ * template asks for it; if reading is refused the token stays as written.
+ */
+export const expandTemplate = async (text: string, language: LanguageCategory): Promise<string> => {
+  let clipboard: string | undefined;
+  if (usesClipboard(text)) {
+    clipboard = await navigator.clipboard.readText().catch(err => {
+      console.warn('Clipboard not readable', err);
+      return undefined;
+    });
+  }
+  return resolvePlaceholders(text, { now: new Date(), locale: placeholderLocale(language), clipboard });
+};
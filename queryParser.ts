@@ -0,0 +1,203 @@
+import { ShortcutData, LanguageCategory } from './types';
+import { LETTER_STYLES } from './data';
+import { foldText } from './search';
+import { styleKeys } from './styleDetector';
+
+// --- QUERY MODEL ---
+
+export type QualifierName = 'lang' | 'style' | 'cat' | 'tag' | 'app' | 'fav' | 'has' | 'len';
+
+const QUALIFIERS: QualifierName[] = ['lang', 'style', 'cat', 'tag', 'app', 'fav', 'has', 'len'];
+
+export interface QueryClause {
+  name: QualifierName;
+  value: string;
+  negated: boolean;
+}
+
+export interface ParsedQuery {
+  text: string; // Free text left for the ranked search, quoted phrases kept quoted
+  excluded: string[]; // Negated free-text terms (`-draft`, `-"good night"`)
+  clauses: QueryClause[];
+}
+
+/** Matches an optional `-`, an optional `name:` and then a quoted or bare value. */
+const TOKEN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+// --- PARSING ---
+
+/**
+ * Splits the search box into qualifiers such as `lang:spanish` or `-tag:work`
+ * and free text. Words with an unknown prefix (`12:30`, `https://…`) stay text.
+ */
+export const parseQuery = (input: string): ParsedQuery => {
+  const words: string[] = [];
+  const excluded: string[] = [];
+  const clauses: QueryClause[] = [];
+
+  for (const match of input.matchAll(TOKEN)) {
+    const [raw, minus, prefix, quoted, bare] = match;
+    const value = quoted ?? bare ?? '';
+    const name = prefix?.toLowerCase() as QualifierName | undefined;
+
+    if (name && QUALIFIERS.includes(name)) {
+      if (value) clauses.push({ name, value, negated: minus === '-' });
+      continue;
+    }
+
+    // A qualifier still being typed (`tag:`) does not filter anything yet
+    const pending = value.match(/^([a-z]+):$/i);
+    if (!prefix && pending && QUALIFIERS.includes(pending[1].toLowerCase() as QualifierName)) continue;
+
+    const term = prefix ? `${prefix}:${value}` : value;
+    if (minus === '-' && term) {
+      excluded.push(term);
+    } else if (term) {
+      words.push(quoted !== undefined && !prefix ? `"${quoted}"` : raw);
+    }
+  }
+
+  return { text: words.join(' '), excluded, clauses };
+};
+
+/** Value of the last non-negated qualifier with this name, if any. */
+export const findQualifier = (query: ParsedQuery, name: QualifierName): string | undefined =>
+  [...query.clauses].reverse().find(c => c.name === name && !c.negated)?.value;
+
+/**
+ * Rewrites the raw search text so it carries `name:value` (or drops it when
+ * value is null), leaving every other token untouched.
+ */
+export const withQualifier = (input: string, name: QualifierName, value: string | null): string => {
+  const kept: string[] = [];
+  for (const match of input.matchAll(TOKEN)) {
+    const [raw, minus, prefix] = match;
+    if (!minus && prefix?.toLowerCase() === name) continue;
+    kept.push(raw);
+  }
+  if (value !== null) kept.push(`${name}:${/\s/.test(value) ? `"${value}"` : value}`);
+  return kept.join(' ');
+};
+
+// --- DROPDOWN VALUES ---
+
+const LANGUAGE_ALIASES: Record<string, LanguageCategory> = {
+  en: 'english', eng: 'english', english: 'english', ingles: 'english',
+  es: 'spanish', esp: 'spanish', spanish: 'spanish', espanol: 'spanish',
+  all: 'all', any: 'all',
+};
+
+/** Maps `lang:` values (including prefixes like `span`) onto the language dropdown. */
+export const resolveLanguage = (value: string): LanguageCategory | undefined => {
+  const folded = foldText(value).text;
+  if (LANGUAGE_ALIASES[folded]) return LANGUAGE_ALIASES[folded];
+  if (folded.length < 2) return undefined;
+  const match = Object.keys(LANGUAGE_ALIASES).find(alias => alias.startsWith(folded));
+  return match ? LANGUAGE_ALIASES[match] : undefined;
+};
+
+/** Maps `style:` values onto a LETTER_STYLES key by key or by the first word of its label. */
+export const resolveStyle = (value: string): string | undefined => {
+  const folded = foldText(value).text;
+  const keys = Object.keys(LETTER_STYLES);
+  return keys.find(key => key === folded)
+    || keys.find(key => LETTER_STYLES[key].toLowerCase().split(' (')[0] === folded)
+    || keys.find(key => key.startsWith(folded) || LETTER_STYLES[key].toLowerCase().startsWith(folded));
+};
+
+// --- LOGIC: Inference & Filters ---
+
+export const TYPE_FILTERS: Record<string, { label: string, keywords: string[] }> = {
+  dates: { label: '📅 Dates', keywords: ['date', 'month', 'year', 'calendar', 'time'] },
+  numbers: { label: '🔢 Numbers', keywords: ['number', 'numeric', 'digit', 'math', 'count'] },
+  greetings: { label: '👋 Greetings', keywords: ['greeting', 'hello', 'hi', 'morning', 'night', 'bye', 'welcome'] },
+  symbols: { label: '✨ Symbols', keywords: ['symbol', 'arrow', 'shape', 'star', 'heart', 'check'] },
+  kaomoji: { label: '😊 Kaomoji', keywords: ['kaomoji', 'face', 'emoticon', 'lenny'] },
+  email: { label: '📧 Email', keywords: ['email', 'mail', 'contact', 'address'] },
+  zodiac: { label: '♈ Zodiac', keywords: ['zodiac', 'horoscope', 'sign'] },
+  general: { label: '📁 General', keywords: ['general', 'misc', 'other'] }
+};
+
+export const inferDescription = (item: ShortcutData): string => {
+  if (item.d) return item.d.toLowerCase();
+  
+  const k = item.k.toLowerCase();
+  const style = styleKeys(item).join(' ');
+
+  if (style.includes('kaomoji')) return 'kaomoji';
+  if (style.includes('symbols') || style.includes('stars') || style.includes('hearts') || style.includes('ancient') || style.includes('esoteric')) return 'symbols';
+  if (k.includes('@') || k.includes('mail') || k.includes('.com')) return 'email';
+  
+  return 'general';
+};
+
+// --- MATCHING ---
+
+const includesFolded = (haystack: string | undefined, needle: string) =>
+  !!haystack && foldText(haystack).text.includes(foldText(needle).text);
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+
+/** Compares a length against `>20`, `<=5`, `=3`, `10..40` or a bare number. */
+const compareLength = (length: number, spec: string): boolean => {
+  const range = spec.match(/^(\d+)\.\.(\d+)$/);
+  if (range) return length >= Number(range[1]) && length <= Number(range[2]);
+
+  const parts = spec.match(/^(>=|<=|>|<|=)?(\d+)$/);
+  if (!parts) return true; // Not a length yet (`len:>`), so do not hide everything while typing
+  const n = Number(parts[2]);
+  switch (parts[1]) {
+    case '>': return length > n;
+    case '<': return length < n;
+    case '>=': return length >= n;
+    case '<=': return length <= n;
+    default: return length === n;
+  }
+};
+
+const hasFeature = (item: ShortcutData, feature: string): boolean => {
+  switch (foldText(feature).text) {
+    case 'newline': case 'multiline': return item.e.includes('\n');
+    case 'description': case 'desc': return !!item.d;
+    case 'tags': case 'tag': return !!item.tags;
+    case 'style': return styleKeys(item).length > 0;
+    case 'category': case 'cat': return !!item.mainCategory;
+    case 'app': case 'application': return !!item.application;
+    default: return true;
+  }
+};
+
+const matchesClause = (item: ShortcutData, { name, value }: QueryClause): boolean => {
+  switch (name) {
+    case 'lang': {
+      const language = resolveLanguage(value);
+      return language ? language === 'all' || item.s === language : includesFolded(item.s, value);
+    }
+    case 'style': {
+      const style = resolveStyle(value);
+      return style ? styleKeys(item).includes(style) : styleKeys(item).some(key => includesFolded(key, value));
+    }
+    case 'cat':
+      return includesFolded(item.mainCategory, value) || includesFolded(item.subcategory, value);
+    case 'tag':
+      return (item.tags || '').split(/[,;\s]+/).some(tag => includesFolded(tag, value));
+    case 'app':
+      return includesFolded(item.application, value);
+    case 'fav':
+      return !!item.favorite === TRUE_VALUES.includes(value.toLowerCase());
+    case 'has':
+      return hasFeature(item, value);
+    case 'len':
+      return compareLength([...item.e].length, value);
+  }
+};
+
+/** Applies qualifiers and negated terms; positive free text is left to the ranked search. */
+export const matchesQuery = (item: ShortcutData, query: ParsedQuery): boolean => {
+  for (const clause of query.clauses) {
+    if (matchesClause(item, clause) === clause.negated) return false;
+  }
+  return !query.excluded.some(term =>
+    includesFolded(item.k, term) || includesFolded(item.e, term) || includesFolded(item.d, term) || includesFolded(item.tags, term)
+  );
+};
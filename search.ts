@@ -0,0 +1,237 @@
+import { ShortcutData } from './types';
+
+// --- CONFIG: Ranking ---
+
+export type SearchField = 'k' | 'e' | 'd' | 'tags' | 'application' | 'mainCategory' | 'subcategory';
+
+/** How much a match in each field counts towards a row's score. */
+export const FIELD_WEIGHTS: Record<SearchField, number> = {
+  k: 10,
+  tags: 5,
+  d: 4,
+  e: 3,
+  application: 2,
+  mainCategory: 2,
+  subcategory: 1.5,
+};
+
+export const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+/** Multipliers for how a term matched, before the field weight is applied. */
+const MATCH_BONUS = {
+  exact: 3, // Whole field equals the term
+  prefix: 2, // Field starts with the term (the main boost for triggers)
+  wordPrefix: 1.5, // Some word in the field starts with the term
+  substring: 1,
+  fuzzy: 0.6, // Within the typo budget of a word
+};
+
+/** Fuzzy matching only kicks in for terms this long, and never on huge fields such as ASCII art. */
+const MIN_FUZZY_TERM = 3;
+const MAX_FUZZY_FIELD = 2000;
+
+/** Allowed edits grow with the term so short terms do not match everything. */
+export const typoBudget = (length: number) => length >= 7 ? 2 : length >= MIN_FUZZY_TERM ? 1 : 0;
+
+export type MatchRange = [start: number, end: number];
+
+export interface SearchHit {
+  item: ShortcutData;
+  score: number;
+  highlights: Partial<Record<SearchField, MatchRange[]>>;
+}
+
+// --- TEXT FOLDING ---
+
+/**
+ * A field folded for matching (lowercase, no diacritics, and styled Unicode
+ * letters such as 𝓪 or 🅰 reduced to plain ones) plus a map from each folded
+ * code unit back to its position in the original text, so highlights land on
+ * the characters the user actually sees.
+ */
+interface FoldedText {
+  text: string;
+  origin: number[];
+  originalLength: number;
+  words: Array<{ start: number; end: number }>;
+}
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+export const foldText = (value: string): FoldedText => {
+  let text = '';
+  const origin: number[] = [];
+  let offset = 0;
+  for (const char of value) {
+    const folded = char.normalize('NFKD').replace(COMBINING_MARKS, '').toLowerCase();
+    for (let i = 0; i < folded.length; i++) origin.push(offset);
+    text += folded;
+    offset += char.length;
+  }
+
+  const words: FoldedText['words'] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    words.push({ start: match.index!, end: match.index! + match[0].length });
+  }
+  return { text, origin, originalLength: value.length, words };
+};
+
+/** Maps a folded [start, end) span back onto the original string. */
+const toOriginal = (folded: FoldedText, start: number, end: number): MatchRange => [
+  folded.origin[start],
+  end < folded.origin.length ? folded.origin[end] : folded.originalLength,
+];
+
+// Rows are replaced rather than mutated, so folded fields can be cached per object
+const foldedRows = new WeakMap<ShortcutData, Record<SearchField, FoldedText>>();
+
+export const foldRow = (item: ShortcutData): Record<SearchField, FoldedText> => {
+  let folded = foldedRows.get(item);
+  if (!folded) {
+    folded = {} as Record<SearchField, FoldedText>;
+    SEARCH_FIELDS.forEach(field => { folded![field] = foldText(item[field] || ''); });
+    foldedRows.set(item, folded);
+  }
+  return folded;
+};
+
+// --- MATCHING ---
+
+/**
+ * Optimal-string-alignment distance (Levenshtein plus adjacent swaps), giving
+ * up as soon as it exceeds `max`.
+ */
+export const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+/**
+ * Edit distance from the term to a word, or to the word's same-length prefix
+ * so a typo in a half-typed word still finds it. Null when over the budget.
+ */
+export const fuzzyDistance = (term: string, word: string, budget = typoBudget(term.length)): number | null => {
+  if (budget === 0) return null;
+  const distance = Math.min(
+    editDistance(term, word, budget),
+    word.length > term.length ? editDistance(term, word.slice(0, term.length), budget) : budget + 1
+  );
+  return distance > budget ? null : distance;
+};
+
+interface TermMatch {
+  bonus: number;
+  start: number;
+  end: number;
+}
+
+const matchTerm = (term: string, field: FoldedText): TermMatch | null => {
+  const { text } = field;
+  if (!text) return null;
+
+  if (text === term) return { bonus: MATCH_BONUS.exact, start: 0, end: text.length };
+  if (text.startsWith(term)) return { bonus: MATCH_BONUS.prefix, start: 0, end: term.length };
+
+  const wordStart = field.words.find(w => text.startsWith(term, w.start));
+  if (wordStart) return { bonus: MATCH_BONUS.wordPrefix, start: wordStart.start, end: wordStart.start + term.length };
+
+  const index = text.indexOf(term);
+  if (index >= 0) return { bonus: MATCH_BONUS.substring, start: index, end: index + term.length };
+
+  const budget = typoBudget(term.length);
+  if (budget === 0 || text.length > MAX_FUZZY_FIELD) return null;
+
+  let best: TermMatch | null = null;
+  for (const word of field.words) {
+    const distance = fuzzyDistance(term, text.slice(word.start, word.end), budget);
+    if (distance === null) continue;
+    const bonus = MATCH_BONUS.fuzzy * (1 - distance / (term.length + 1));
+    if (!best || bonus > best.bonus) best = { bonus, start: word.start, end: word.end };
+  }
+  return best;
+};
+
+// --- PUBLIC API ---
+
+/** Splits a query into folded terms; quoted text is kept together as one term. */
+export const parseSearchTerms = (query: string): string[] => {
+  const terms: string[] = [];
+  for (const match of query.matchAll(/"([^"]*)"|(\S+)/g)) {
+    const term = foldText(match[1] ?? match[2]).text.trim();
+    if (term) terms.push(term);
+  }
+  return terms;
+};
+
+/**
+ * Scores a single row against already-parsed terms. Every term has to match
+ * some field; the row's score is the sum of each term's best weighted match.
+ */
+export const scoreShortcut = (item: ShortcutData, terms: string[]): SearchHit | null => {
+  const folded = foldRow(item);
+  const highlights: SearchHit['highlights'] = {};
+  let score = 0;
+
+  for (const term of terms) {
+    let bestScore = 0;
+    SEARCH_FIELDS.forEach(field => {
+      const match = matchTerm(term, folded[field]);
+      if (!match) return;
+      const fieldScore = match.bonus * FIELD_WEIGHTS[field];
+      bestScore = Math.max(bestScore, fieldScore);
+      (highlights[field] ||= []).push(toOriginal(folded[field], match.start, match.end));
+    });
+    if (bestScore === 0) return null;
+    score += bestScore;
+  }
+
+  // Among otherwise equal matches, shorter triggers rank first
+  score += 1 / (1 + item.k.length);
+  return { item, score, highlights };
+};
+
+/** Returns matching rows ordered by relevance; equal scores keep their original order. */
+export const searchShortcuts = (rows: ShortcutData[], query: string): SearchHit[] => {
+  const terms = parseSearchTerms(query);
+  if (terms.length === 0) return rows.map(item => ({ item, score: 0, highlights: {} }));
+
+  const hits: Array<SearchHit & { order: number }> = [];
+  rows.forEach((item, order) => {
+    const hit = scoreShortcut(item, terms);
+    if (hit) hits.push({ ...hit, order });
+  });
+  return hits
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .map(({ order, ...hit }) => hit);
+};
+
+/** Merges overlapping ranges so the same characters are never wrapped twice. */
+export const mergeRanges = (ranges: MatchRange[] = []): MatchRange[] => {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: MatchRange[] = [];
+  sorted.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  });
+  return merged;
+};
@@ -0,0 +1,81 @@
+import { ShortcutData } from './types';
+import { createIndexHost, diffRows, IndexQuery, IndexRequest, IndexResponse, IndexResult, IndexStats } from './searchIndex';
+
+// --- SEARCH CLIENT ---
+
+export interface SearchClient {
+  /** Brings the index in line with the latest `data`, sending only what changed. */
+  sync: (rows: ShortcutData[]) => void;
+  /** Resolves null when a newer query superseded this one. */
+  query: (query: IndexQuery) => Promise<IndexResult | null>;
+  dispose: () => void;
+}
+
+/**
+ * Talks to the search worker. If a worker cannot be started (or crashes) the
+ * same index runs on the main thread behind the same async interface.
+ */
+export const createSearchClient = (onStats: (stats: IndexStats) => void): SearchClient => {
+  let worker: Worker | null = null;
+  let send: (message: IndexRequest) => void;
+  let synced: ShortcutData[] = [];
+  let nextQueryId = 0;
+  let lastQuery: { queryId: number; query: IndexQuery } | null = null;
+  const pending = new Map<number, (result: IndexResult | null) => void>();
+
+  const receive = (message: IndexResponse) => {
+    if (message.type === 'stats') {
+      onStats(message.stats);
+    } else {
+      pending.get(message.queryId)?.(message.result);
+      pending.delete(message.queryId);
+    }
+  };
+
+  const runInThread = () => {
+    const host = createIndexHost(receive);
+    send = (message) => { setTimeout(() => host(message), 0); };
+  };
+
+  try {
+    worker = new Worker(new URL('./searchWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<IndexResponse>) => receive(event.data);
+    worker.onerror = (event) => {
+      console.error('Search worker failed, searching on the main thread instead', event);
+      worker?.terminate();
+      worker = null;
+      runInThread();
+      // Rebuild from scratch and answer whatever was still waiting
+      diffRows([], synced).forEach(message => send(message));
+      if (lastQuery) send({ type: 'query', ...lastQuery });
+    };
+    send = (message) => worker!.postMessage(message);
+  } catch (err) {
+    console.warn('Search worker unavailable', err);
+    runInThread();
+  }
+
+  return {
+    sync: (rows) => {
+      diffRows(synced, rows).forEach(message => send(message));
+      synced = rows;
+    },
+    query: (query) => {
+      // Anything still waiting is now stale
+      pending.forEach(resolve => resolve(null));
+      pending.clear();
+
+      const queryId = ++nextQueryId;
+      lastQuery = { queryId, query };
+      return new Promise(resolve => {
+        pending.set(queryId, resolve);
+        send({ type: 'query', queryId, query });
+      });
+    },
+    dispose: () => {
+      pending.forEach(resolve => resolve(null));
+      pending.clear();
+      worker?.terminate();
+    },
+  };
+};
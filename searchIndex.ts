@@ -0,0 +1,300 @@
+import { ShortcutData, LanguageCategory } from './types';
+import { SearchHit, SEARCH_FIELDS, foldRow, foldText, fuzzyDistance, parseSearchTerms, scoreShortcut } from './search';
+import { parseQuery, matchesQuery, inferDescription, TYPE_FILTERS } from './queryParser';
+import { styleKeys } from './styleDetector';
+
+// --- PROTOCOL ---
+
+/** Everything the grid filters on: the raw search box plus the dropdowns and bars. */
+export interface IndexQuery {
+  text: string;
+  language: LanguageCategory;
+  style: string;
+  type: string;
+  category: string;
+}
+
+export interface IndexResult {
+  ids: string[]; // Matching row ids, ranked when the query has free text
+  highlights: Array<[string, SearchHit['highlights']]>;
+}
+
+export interface IndexStats {
+  total: number;
+  english: number;
+  spanish: number;
+  styles: number;
+  uniqueCategories: string[];
+}
+
+export const EMPTY_STATS: IndexStats = { total: 0, english: 0, spanish: 0, styles: 0, uniqueCategories: [] };
+
+export type IndexRequest =
+  | { type: 'upsert'; rows: ShortcutData[]; order?: string[] } // `order` is sent when rows moved, not just appended
+  | { type: 'remove'; ids: string[] }
+  | { type: 'query'; queryId: number; query: IndexQuery };
+
+export type IndexResponse =
+  | { type: 'stats'; stats: IndexStats }
+  | { type: 'result'; queryId: number; result: IndexResult };
+
+// --- CONFIG ---
+
+/** Rows scored between yields, so a newer query can cancel this one promptly. */
+const QUERY_CHUNK = 1000;
+
+const yieldToEvents = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// --- INDEX ---
+
+const countUp = <K,>(counts: Map<K, number>, key: K, delta: number) => {
+  const next = (counts.get(key) || 0) + delta;
+  if (next > 0) counts.set(key, next);
+  else counts.delete(key);
+};
+
+/**
+ * Inverted index over every searchable field, keyed by folded word. Rows are
+ * added and removed one at a time, and the stats counters move with them.
+ */
+export const createShortcutIndex = () => {
+  const rows = new Map<string, ShortcutData>();
+  const rowWords = new Map<string, string[]>();
+  const rowTypes = new Map<string, string>();
+  const vocabulary = new Map<string, Set<string>>();
+
+  let order: string[] = [];
+  let position: Map<string, number> | null = null; // Rebuilt lazily after the order changes
+
+  const languages = new Map<string, number>();
+  const styles = new Map<string, number>();
+  const categories = new Map<string, number>();
+
+  const track = (row: ShortcutData, delta: number) => {
+    countUp(languages, row.s, delta);
+    styleKeys(row).forEach(style => countUp(styles, style, delta));
+    if (row.mainCategory) countUp(categories, row.mainCategory, delta);
+  };
+
+  const unindex = (id: string) => {
+    const row = rows.get(id);
+    if (!row) return;
+    track(row, -1);
+    rowWords.get(id)?.forEach(word => {
+      const ids = vocabulary.get(word);
+      ids?.delete(id);
+      if (ids && ids.size === 0) vocabulary.delete(word);
+    });
+    rows.delete(id);
+    rowWords.delete(id);
+    rowTypes.delete(id);
+  };
+
+  const index = (id: string, row: ShortcutData) => {
+    const folded = foldRow(row);
+    const words = new Set<string>();
+    SEARCH_FIELDS.forEach(field => {
+      const { text, words: spans } = folded[field];
+      spans.forEach(span => words.add(text.slice(span.start, span.end)));
+    });
+    words.forEach(word => {
+      let ids = vocabulary.get(word);
+      if (!ids) vocabulary.set(word, ids = new Set());
+      ids.add(id);
+    });
+    rows.set(id, row);
+    rowWords.set(id, [...words]);
+    rowTypes.set(id, inferDescription(row));
+    track(row, 1);
+  };
+
+  const upsert = (changed: ShortcutData[], nextOrder?: string[]) => {
+    changed.forEach(row => {
+      const id = row.id!;
+      const isNew = !rows.has(id);
+      unindex(id);
+      index(id, row);
+      if (isNew && !nextOrder) order.push(id);
+    });
+    if (nextOrder) order = nextOrder;
+    position = null;
+  };
+
+  const remove = (ids: string[]) => {
+    const removed = new Set(ids);
+    ids.forEach(unindex);
+    order = order.filter(id => !removed.has(id));
+    position = null;
+  };
+
+  /**
+   * Rows that could match every term. Any substring match implies each word
+   * part of the term sits inside some indexed word, and fuzzy matches are
+   * found by scanning the vocabulary, which is much smaller than the rows.
+   * Returns null when a term has no word characters (emoji, symbols) and every
+   * row has to be scored.
+   */
+  const candidatesFor = (terms: string[]): Set<string> | null => {
+    let candidates: Set<string> | null = null;
+
+    for (const term of terms) {
+      const folded = foldText(term);
+      const parts = folded.words.map(w => folded.text.slice(w.start, w.end));
+      if (parts.length === 0) return null;
+
+      const partHits = parts.map(() => new Set<string>());
+      const fuzzyHits = new Set<string>();
+      vocabulary.forEach((ids, word) => {
+        parts.forEach((part, idx) => {
+          if (word.includes(part)) ids.forEach(id => partHits[idx].add(id));
+        });
+        if (fuzzyDistance(term, word) !== null) ids.forEach(id => fuzzyHits.add(id));
+      });
+
+      const termHits = partHits.reduce((acc, hits) => new Set([...acc].filter(id => hits.has(id))));
+      fuzzyHits.forEach(id => termHits.add(id));
+      candidates = candidates ? new Set([...candidates].filter(id => termHits.has(id))) : termHits;
+      if (candidates.size === 0) break;
+    }
+    return candidates;
+  };
+
+  const inOrder = (ids: Set<string>): string[] => {
+    if (!position) position = new Map(order.map((id, idx) => [id, idx]));
+    const pos = position;
+    return [...ids].sort((a, b) => (pos.get(a) ?? 0) - (pos.get(b) ?? 0));
+  };
+
+  /**
+   * Filters and ranks rows in chunks, checking `isCurrent` between chunks so a
+   * superseded query stops early. Resolves null once cancelled.
+   */
+  const query = async (request: IndexQuery, isCurrent: () => boolean): Promise<IndexResult | null> => {
+    const parsed = parseQuery(request.text);
+    const terms = parseSearchTerms(parsed.text);
+    const candidates = terms.length > 0 ? candidatesFor(terms) : null;
+    const ids = candidates ? inOrder(candidates) : [...order];
+    const keywords = request.type !== 'all' ? TYPE_FILTERS[request.type]?.keywords : undefined;
+
+    const matched: string[] = [];
+    const hits: Array<SearchHit & { rank: number }> = [];
+
+    for (let start = 0; start < ids.length; start += QUERY_CHUNK) {
+      if (start > 0) {
+        await yieldToEvents();
+        if (!isCurrent()) return null;
+      }
+
+      ids.slice(start, start + QUERY_CHUNK).forEach((id, offset) => {
+        const item = rows.get(id);
+        if (!item) return; // Removed while this query was running
+        if (request.language !== 'all' && item.s !== request.language) return;
+        if (request.style !== 'all' && !styleKeys(item).includes(request.style)) return;
+        if (request.category !== 'all' && item.mainCategory !== request.category) return;
+        if (keywords && !keywords.some(kw => rowTypes.get(id)!.includes(kw))) return;
+        if (!matchesQuery(item, parsed)) return;
+
+        if (terms.length === 0) {
+          matched.push(id);
+          return;
+        }
+        const hit = scoreShortcut(item, terms);
+        if (hit) hits.push({ ...hit, rank: start + offset });
+      });
+    }
+
+    if (!isCurrent()) return null;
+    if (terms.length === 0) return { ids: matched, highlights: [] };
+
+    hits.sort((a, b) => b.score - a.score || a.rank - b.rank);
+    return {
+      ids: hits.map(hit => hit.item.id!),
+      highlights: hits.map(hit => [hit.item.id!, hit.highlights]),
+    };
+  };
+
+  const stats = (): IndexStats => ({
+    total: rows.size,
+    english: languages.get('english') || 0,
+    spanish: languages.get('spanish') || 0,
+    styles: styles.size,
+    uniqueCategories: [...categories.keys()].sort(),
+  });
+
+  return { upsert, remove, query, stats };
+};
+
+// --- HOST ---
+
+/**
+ * Message loop around one index. Runs inside the search worker, or on the
+ * main thread when workers are unavailable. A new query supersedes any query
+ * still in flight.
+ */
+export const createIndexHost = (post: (message: IndexResponse) => void) => {
+  const shortcutIndex = createShortcutIndex();
+  let latestQuery = 0;
+
+  return (message: IndexRequest) => {
+    switch (message.type) {
+      case 'upsert':
+        shortcutIndex.upsert(message.rows, message.order);
+        post({ type: 'stats', stats: shortcutIndex.stats() });
+        break;
+      case 'remove':
+        shortcutIndex.remove(message.ids);
+        post({ type: 'stats', stats: shortcutIndex.stats() });
+        break;
+      case 'query': {
+        const { queryId } = message;
+        latestQuery = queryId;
+        shortcutIndex.query(message.query, () => latestQuery === queryId)
+          .then(result => { if (result) post({ type: 'result', queryId, result }); })
+          .catch(err => console.error('Search query failed', err));
+        break;
+      }
+    }
+  };
+};
+
+// --- DIFFING ---
+
+const sameRow = (a: ShortcutData, b: ShortcutData) => {
+  if (a === b) return true;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof ShortcutData>;
+  for (const key of keys) if (a[key] !== b[key]) return false;
+  return true;
+};
+
+/**
+ * Turns two versions of `data` into the messages that bring the index from
+ * one to the other: removed ids, changed or new rows, and the full id order
+ * only when rows were inserted anywhere but the end or moved.
+ */
+export const diffRows = (prev: ShortcutData[], next: ShortcutData[]): IndexRequest[] => {
+  const before = new Map(prev.map(row => [row.id!, row]));
+  const nextIds = new Set(next.map(row => row.id!));
+  const removed = prev.filter(row => !nextIds.has(row.id!)).map(row => row.id!);
+  const survivors = prev.filter(row => nextIds.has(row.id!)).map(row => row.id!);
+
+  const changed: ShortcutData[] = [];
+  let cursor = 0;
+  let moved = false;
+  next.forEach(row => {
+    const old = before.get(row.id!);
+    if (old) {
+      if (survivors[cursor++] !== row.id) moved = true;
+      if (!sameRow(old, row)) changed.push(row);
+    } else {
+      if (cursor < survivors.length) moved = true; // Inserted ahead of existing rows
+      changed.push(row);
+    }
+  });
+
+  const messages: IndexRequest[] = [];
+  if (removed.length > 0) messages.push({ type: 'remove', ids: removed });
+  if (changed.length > 0 || moved) {
+    messages.push({ type: 'upsert', rows: changed, order: moved ? next.map(row => row.id!) : undefined });
+  }
+  return messages;
+};
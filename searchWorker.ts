@@ -0,0 +1,13 @@
+import { createIndexHost, IndexRequest, IndexResponse } from './searchIndex';
+
+// --- SEARCH WORKER ---
+// Holds the shortcut index off the main thread; see searchClient.ts for the other end.
+
+const scope = self as unknown as {
+  postMessage: (message: IndexResponse) => void;
+  onmessage: ((event: MessageEvent<IndexRequest>) => void) | null;
+};
+
+const handle = createIndexHost(message => scope.postMessage(message));
+
+scope.onmessage = (event) => handle(event.data);
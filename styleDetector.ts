@@ -0,0 +1,137 @@
+import { ShortcutData } from './types';
+import { LETTER_STYLES } from './data';
+import { STYLE_DEFINITIONS } from './styleTransformer';
+
+// --- GLYPH TABLES ---
+
+/** Glyphs the seed alphabets use in place of the transformer's (older variants of the same style). */
+const SEED_VARIANTS: Record<string, string> = {
+  fancy: 'ﺃᜣꪇꪻɀ',
+  asian: 'ᘜҨ',
+  superscript: 'ᵠ',
+};
+
+/** Plain (non-bold) Fraktur has no style of its own; it reads as Fraktur. */
+const PLAIN_FRAKTUR = [...'ℭℌℑℜℨ', ...Array.from({ length: 52 }, (_, idx) => String.fromCodePoint(0x1D504 + idx))];
+
+/** Glyph → LETTER_STYLES keys, built from the transformer tables. ASCII is never a style signal. */
+const GLYPH_STYLES = (() => {
+  const map = new Map<string, string[]>();
+  const add = (glyph: string, style: string) => {
+    if (glyph.charCodeAt(0) < 0x80) return;
+    const styles = map.get(glyph);
+    if (!styles) map.set(glyph, [style]);
+    else if (!styles.includes(style)) styles.push(style);
+  };
+
+  Object.entries(STYLE_DEFINITIONS).forEach(([style, def]) => {
+    [def.upper, def.lower, def.digits, def.extra && Object.values(def.extra)]
+      .forEach(table => table?.forEach(glyph => add(glyph, style)));
+  });
+  Object.entries(SEED_VARIANTS).forEach(([style, table]) => [...table].forEach(glyph => add(glyph, style)));
+  PLAIN_FRAKTUR.forEach(glyph => add(glyph, 'fraktur'));
+  return map;
+})();
+
+const COMBINING_STYLES: Record<string, string> = Object.fromEntries(
+  Object.entries(STYLE_DEFINITIONS).filter(([, def]) => def.combining).map(([style, def]) => [def.combining!, style])
+);
+
+/** Face parts that only show up together in kaomoji. */
+const KAOMOJI_PARTS = new Set([...'ʕʔᴥ•●◕‿◡ᴗ°¯ʖツﾉಠ･・｡つ⊃ᐛᕕᕗ٩۶ฅﻌ༼༽❍ʋ˘³ᗒᗣᗕ՞༎ٹ؈₎ง', '\u0EB6', '\u0300', '\u0301', '\u035C', '\u0360', '\u0361']);
+const FACE_EDGES = /[()（）ʕʔ༼༽ᕕᕗ٩۶ฅ]/;
+const WORD = /[a-z]{3,}/i;
+const STAR_GLYPHS = new Set([...'★☆✩✪✫✬✭✮✯✰✵✶✷✸✹⍟⁂✦✧']);
+const HEART_GLYPHS = new Set([...'♡♥❤❣❥❦❧ღఌꨄ']);
+const ESOTERIC_GLYPHS = new Set([...'༒✞✝☦☥☯☪✡⛧☠𓂀𓁹']);
+
+/** Historic scripts: Linear B through Old Italic, Phoenician, cuneiform, Egyptian hieroglyphs, runes. */
+const ANCIENT_RANGES: Array<[number, number]> = [
+  [0x10000, 0x1034F], [0x10900, 0x1091F], [0x12000, 0x1254F], [0x13000, 0x1343F], [0x16A0, 0x16FF],
+];
+
+const ART_GLYPH = /[\u2500-\u259F\u2800-\u28FF]/u; // Box drawing, block elements, braille
+const IGNORED = new Set(['\uFE0E', '\uFE0F', '\u200D', '\u20E3']); // Presentation selectors, ZWJ, keycap
+const SYMBOL = /\p{S}/u;
+const EMOJI = /\p{Emoji_Presentation}/u;
+const MARK = /\p{M}/u;
+
+const MAX_STYLES = 3;
+const MIN_SHARE = 0.25; // A second style must cover at least this share of the leading style's glyphs
+
+// --- DETECTION ---
+
+const inRanges = (cp: number, ranges: Array<[number, number]>) => ranges.some(([lo, hi]) => cp >= lo && cp <= hi);
+
+/** Content styles for a glyph no letter table claims. */
+const categoryOf = (ch: string): string | undefined => {
+  if (STAR_GLYPHS.has(ch)) return 'stars';
+  if (HEART_GLYPHS.has(ch)) return 'hearts';
+  if (ESOTERIC_GLYPHS.has(ch)) return 'esoteric';
+  if (inRanges(ch.codePointAt(0)!, ANCIENT_RANGES)) return 'ancient';
+  if (ART_GLYPH.test(ch)) return 'art';
+  if (SYMBOL.test(ch) && !EMOJI.test(ch)) return 'symbols';
+  return undefined;
+};
+
+/**
+ * LETTER_STYLES keys the expansion is written in, most-used first. Each
+ * non-ASCII code point votes for the styles whose glyph it is; a style needs
+ * two votes (or every glyph of a one-glyph expansion) to count, so a stray
+ * `•` or `ˢ` in plain text does not tag the row. Mixed content returns
+ * several keys.
+ */
+export const detectStyles = (text: string): string[] => {
+  const hits = new Map<string, number>();
+  const vote = (style: string) => hits.set(style, (hits.get(style) || 0) + 1);
+  let glyphs = 0;
+  let kaomojiParts = 0;
+
+  for (const ch of text) {
+    if (IGNORED.has(ch)) continue;
+    if (KAOMOJI_PARTS.has(ch)) kaomojiParts++;
+    if (COMBINING_STYLES[ch]) {
+      vote(COMBINING_STYLES[ch]);
+      glyphs++;
+      continue;
+    }
+    if (ch.charCodeAt(0) < 0x80 || MARK.test(ch) || /\s/.test(ch)) continue;
+
+    glyphs++;
+    const styles = GLYPH_STYLES.get(ch);
+    if (styles) styles.forEach(vote);
+    else {
+      const category = categoryOf(ch);
+      if (category) vote(category);
+    }
+  }
+
+  // Faces are judged as a whole: short, single line, no words, and framed or made of several face parts
+  const isFace = kaomojiParts > 0 && (kaomojiParts >= 2 || FACE_EDGES.test(text))
+    && !WORD.test(text) && !text.includes('\n') && [...text].length <= 30;
+  if (isFace) {
+    hits.set('kaomoji', kaomojiParts);
+    hits.delete('symbols'); // Eyes and mouths are symbols too, but here they are part of the face
+  }
+
+  const ranked = [...hits.entries()].sort((a, b) => b[1] - a[1]);
+  if (ranked.length === 0) return [];
+  const floor = Math.max(Math.min(2, glyphs), Math.ceil(ranked[0][1] * MIN_SHARE));
+  return ranked
+    .filter(([style, count]) => count >= floor && style in LETTER_STYLES)
+    .slice(0, MAX_STYLES)
+    .map(([style]) => style);
+};
+
+/** Fills `detectedStyle` from the expansion. Rows are returned as-is when nothing changes. */
+export const withDetectedStyle = <T extends ShortcutData>(item: T): T => {
+  const detected = detectStyles(item.e).join(',') || undefined;
+  return detected === item.detectedStyle ? item : { ...item, detectedStyle: detected };
+};
+
+/**
+ * The styles a row belongs to: its stored `style` (comma-separated for mixed
+ * content) when set, otherwise what detection found.
+ */
+export const styleKeys = (item: ShortcutData): string[] =>
+  (item.style || item.detectedStyle || '').split(',').map(key => key.trim()).filter(Boolean);
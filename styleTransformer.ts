@@ -0,0 +1,119 @@
+import { LETTER_STYLES } from './data';
+
+// --- STYLE TABLES ---
+
+/**
+ * How one LETTER_STYLES entry renders plain text. Alphabet tables hold 26
+ * glyphs (A–Z / a–z), digit tables 10 (0–9); anything without a glyph is left
+ * as typed. Combining styles instead put a mark after every character.
+ */
+export interface StyleDefinition {
+  upper?: string[];
+  lower?: string[];
+  digits?: string[];
+  extra?: Record<string, string>; // Punctuation and other one-off glyphs
+  combining?: string;
+  presentation?: string; // Appended to each converted glyph (e.g. U+FE0E to keep emoji-capable letters as text)
+  forceCase?: 'upper' | 'lower';
+  reverse?: boolean; // Upside-down text reads right to left
+}
+
+/** 26 (or 10) consecutive code points from `start`, with Unicode's gaps filled from `holes`. */
+const run = (start: number, length = 26, holes: Record<number, string> = {}): string[] =>
+  Array.from({ length }, (_, idx) => holes[idx] ?? String.fromCodePoint(start + idx));
+
+const glyphs = (table: string): string[] => [...table];
+
+const LETTER = (ch: string) => ch.toUpperCase().charCodeAt(0) - 65;
+
+const holes = (map: Record<string, string>): Record<number, string> =>
+  Object.fromEntries(Object.entries(map).map(([letter, glyph]) => [LETTER(letter), glyph]));
+
+const TEXT_PRESENTATION = '\uFE0E';
+
+export const STYLE_DEFINITIONS: Record<string, StyleDefinition> = {
+  strikethrough: { combining: '\u0336' },
+  underline: { combining: '\u035F' },
+  fancy: { lower: glyphs('ꪖ᥇ᥴᦔꫀᠻᧁꫝ꠸꠹ᛕꪶꪑꪀꪮρ𝘲᥅ᦓ𝓽ꪊꪜ᭙᥊ꪗƺ'), forceCase: 'lower' },
+  asian: { upper: glyphs('卂乃匚ᗪ乇千Ꮆ卄丨ﾌҜㄥ爪几ㄖ卩Ɋ尺丂ㄒㄩᐯ山乂ㄚ乙'), forceCase: 'upper' },
+  squared: { upper: run(0x1F170), presentation: TEXT_PRESENTATION, forceCase: 'upper' },
+  outline: { upper: run(0x1F130), forceCase: 'upper' },
+  upside: {
+    upper: glyphs('∀ꓭƆꓷƎℲ⅁HIſꓘ˥WNOԀΌꓤS⊥∩ΛMX⅄Z'),
+    lower: glyphs('ɐqɔpǝɟƃɥᴉɾʞlɯuodbɹsʇnʌʍxʎz'),
+    digits: glyphs('0ƖᄅƐㄣϛ9ㄥ86'),
+    extra: {
+      '.': '˙', ',': '\'', '\'': ',', '"': '„', '?': '¿', '!': '¡', '_': '‾', '&': '⅋',
+      '(': ')', ')': '(', '[': ']', ']': '[', '{': '}', '}': '{', '<': '>', '>': '<',
+    },
+    reverse: true,
+  },
+  // Like script / script-lower, the two Fraktur entries split bold Fraktur by case (see their labels)
+  fraktur: { lower: run(0x1D586), forceCase: 'lower' },
+  'bold-fraktur': { upper: run(0x1D56C), forceCase: 'upper' },
+  'circle-neg': {
+    upper: run(0x1F150),
+    digits: ['⓿', ...run(0x2776, 9)],
+    presentation: TEXT_PRESENTATION,
+    forceCase: 'upper',
+  },
+  circled: { upper: run(0x24B6), lower: run(0x24D0), digits: ['⓪', ...run(0x2460, 9)] },
+  sans: { upper: run(0x1D5A0), lower: run(0x1D5BA), digits: run(0x1D7E2, 10) },
+  italic: { upper: run(0x1D608), lower: run(0x1D622) },
+  'bold-italic': { upper: run(0x1D63C), lower: run(0x1D656) },
+  'sans-bold': { upper: run(0x1D5D4), lower: run(0x1D5EE), digits: run(0x1D7EC, 10) },
+  superscript: {
+    upper: glyphs('ᴬᴮᶜᴰᴱᶠᴳᴴᴵᴶᴷᴸᴹᴺᴼᴾQᴿˢᵀᵁⱽᵂˣʸᶻ'),
+    lower: glyphs('ᵃᵇᶜᵈᵉᶠᵍʰⁱʲᵏˡᵐⁿᵒᵖᑫʳˢᵗᵘᵛʷˣʸᶻ'),
+    digits: glyphs('⁰¹²³⁴⁵⁶⁷⁸⁹'),
+    extra: { '+': '⁺', '-': '⁻', '=': '⁼', '(': '⁽', ')': '⁾' },
+  },
+  script: { upper: run(0x1D4D0), forceCase: 'upper' },
+  'script-lower': { lower: run(0x1D4EA), forceCase: 'lower' },
+  'bold-serif': { upper: run(0x1D468), lower: run(0x1D482) },
+  'math-bold': { upper: run(0x1D400), lower: run(0x1D41A), digits: run(0x1D7CE, 10) },
+  double: {
+    upper: run(0x1D538, 26, holes({ C: 'ℂ', H: 'ℍ', N: 'ℕ', P: 'ℙ', Q: 'ℚ', R: 'ℝ', Z: 'ℤ' })),
+    lower: run(0x1D552),
+    digits: run(0x1D7D8, 10),
+  },
+  mono: { upper: run(0x1D670), lower: run(0x1D68A), digits: run(0x1D7F6, 10) },
+};
+
+/** LETTER_STYLES keys that are letter transforms; the rest (kaomoji, art, …) are content categories. */
+export const TRANSFORMABLE_STYLES = Object.keys(LETTER_STYLES).filter(key => key in STYLE_DEFINITIONS);
+
+// --- TRANSFORM ---
+
+const convertChar = (ch: string, def: StyleDefinition): string => {
+  const cased = def.forceCase === 'upper' ? ch.toUpperCase() : def.forceCase === 'lower' ? ch.toLowerCase() : ch;
+  let out: string | undefined;
+
+  if (cased >= 'A' && cased <= 'Z') out = (def.upper || def.lower)?.[LETTER(cased)];
+  else if (cased >= 'a' && cased <= 'z') out = (def.lower || def.upper)?.[LETTER(cased)];
+  else if (cased >= '0' && cased <= '9') out = def.digits?.[cased.charCodeAt(0) - 48];
+  else out = def.extra?.[cased];
+
+  if (out === undefined) return ch;
+  return def.presentation ? out + def.presentation : out;
+};
+
+/** Renders plain text in one style. Unknown styles return the input unchanged. */
+export const transformText = (text: string, style: string): string => {
+  const def = STYLE_DEFINITIONS[style];
+  if (!def) return text;
+
+  // Transform line by line so reversing never swaps lines and marks never land on newlines
+  return text.split('\n').map(line => {
+    const chars = [...line];
+    if (def.combining) {
+      return chars.map(ch => /\s/.test(ch) && ch !== ' ' ? ch : ch + def.combining).join('');
+    }
+    const converted = chars.map(ch => convertChar(ch, def));
+    return (def.reverse ? converted.reverse() : converted).join('');
+  }).join('\n');
+};
+
+/** Every transformable style applied to the same input, in LETTER_STYLES order. */
+export const transformAll = (text: string): Array<{ style: string; label: string; output: string }> =>
+  TRANSFORMABLE_STYLES.map(style => ({ style, label: LETTER_STYLES[style], output: transformText(text, style) }));
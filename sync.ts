@@ -0,0 +1,85 @@
+import { ShortcutData } from './types';
+import { createLocalId } from './localStore';
+
+// --- UTILITIES: Delta Sync Helpers ---
+
+/** Rows are matched by id when the backend provides one, otherwise by trigger. */
+export const rowIdentity = (item: ShortcutData): string => item.id || item.k;
+
+/**
+ * Fallback id for rows from a backend that does not send one yet: the row's
+ * position in the snapshot. Unlike a hash of the content it survives edits,
+ * and two identical rows still get different ids.
+ */
+export const sheetRowId = (position: number): string => `sheet-row-${position}`;
+
+/**
+ * Delta rows from a backend that sends neither an id nor a position take the
+ * id of the loaded row with their trigger. Returns null when that would be a
+ * guess (variants share a trigger, or the delta holds the trigger twice), so
+ * the caller can take a full snapshot instead.
+ */
+export const adoptRowIds = (rows: ShortcutData[], changed: ShortcutData[]): ShortcutData[] | null => {
+  const idsByKey = new Map<string, string[]>();
+  rows.forEach(row => { if (row.id) idsByKey.set(row.k, [...(idsByKey.get(row.k) || []), row.id]); });
+  const seen = new Set<string>();
+  const adopted: ShortcutData[] = [];
+  for (const row of changed) {
+    if (row.id) {
+      adopted.push(row);
+      continue;
+    }
+    const ids = idsByKey.get(row.k) || [];
+    if (ids.length > 1 || seen.has(row.k)) return null;
+    seen.add(row.k);
+    adopted.push({ ...row, id: ids[0] || createLocalId() });
+  }
+  return adopted;
+};
+
+const toTime = (value?: string | null): number => {
+  if (!value) return NaN;
+  const t = Date.parse(value);
+  return Number.isNaN(t) ? NaN : t;
+};
+
+/** Returns whichever timestamp is later, tolerating missing or unparsable values. */
+export const laterTimestamp = (a?: string | null, b?: string | null): string | null => {
+  const ta = toTime(a);
+  const tb = toTime(b);
+  if (Number.isNaN(ta)) return Number.isNaN(tb) ? null : b!;
+  if (Number.isNaN(tb)) return a!;
+  return tb > ta ? b! : a!;
+};
+
+/** Highest `updatedAt` in a set of rows, used as a watermark when the backend does not send one. */
+export const latestUpdatedAt = (rows: ShortcutData[]): string | null =>
+  rows.reduce<string | null>((latest, row) => laterTimestamp(latest, row.updatedAt), null);
+
+/**
+ * Applies a delta to the cached rows in place: changed rows replace their
+ * existing entry (keeping its position), unknown rows are appended and
+ * deleted identities are dropped.
+ */
+export const mergeDelta = (rows: ShortcutData[], changed: ShortcutData[], deleted: string[]): ShortcutData[] => {
+  const removed = new Set(deleted);
+  const incoming = new Map(changed.map(row => [rowIdentity(row), row]));
+
+  const merged: ShortcutData[] = [];
+  rows.forEach(row => {
+    const id = rowIdentity(row);
+    if (removed.has(id)) return;
+    const replacement = incoming.get(id);
+    if (replacement) {
+      merged.push(replacement);
+      incoming.delete(id);
+    } else {
+      merged.push(row);
+    }
+  });
+
+  incoming.forEach(row => {
+    if (!removed.has(rowIdentity(row))) merged.push(row);
+  });
+  return merged;
+};
@@ -0,0 +1,76 @@
+// --- TEMPLATE FIELDS ---
+
+/**
+ * Blanks in an expansion that are filled in through a form when the card is
+ * copied:
+ *
+ *   {{name}}              free text
+ *   {{day:number}}        a number
+ *   {{when:today|tomorrow|next week}}   one of the listed choices
+ *
+ * A name used twice is asked for once. Single-brace `{date}` placeholders are
+ * a separate, automatic mechanism (see placeholders.ts).
+ */
+export type TemplateField =
+  | { name: string; kind: 'text' }
+  | { name: string; kind: 'number' }
+  | { name: string; kind: 'choice'; options: string[] };
+
+export type FieldValues = Record<string, string>;
+
+const FIELD = /\{\{\s*([^{}:]+?)\s*(?::([^{}]*))?\}\}/g;
+
+const parseField = (name: string, spec?: string): TemplateField => {
+  const options = (spec || '').split('|').map(option => option.trim()).filter(Boolean);
+  if (options.length > 1) return { name, kind: 'choice', options };
+  if (spec?.trim().toLowerCase() === 'number') return { name, kind: 'number' };
+  return { name, kind: 'text' };
+};
+
+/** Fields in order of first appearance. Later repeats of a name reuse the first definition. */
+export const parseTemplateFields = (text: string): TemplateField[] => {
+  const fields = new Map<string, TemplateField>();
+  for (const [, name, spec] of text.matchAll(FIELD)) {
+    if (!fields.has(name)) fields.set(name, parseField(name, spec));
+  }
+  return [...fields.values()];
+};
+
+export const hasTemplateFields = (text: string): boolean => text.search(FIELD) !== -1;
+
+/** Error message for one value, or null when it is acceptable. */
+export const validateField = (field: TemplateField, value: string | undefined): string | null => {
+  const trimmed = (value || '').trim();
+  if (!trimmed) return 'Required';
+  if (field.kind === 'number' && !/^-?\d+(\.\d+)?$/.test(trimmed)) return 'Must be a number';
+  if (field.kind === 'choice' && !field.options.includes(trimmed)) return `Pick one of ${field.options.join(', ')}`;
+  return null;
+};
+
+export const validateFields = (fields: TemplateField[], values: FieldValues): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  fields.forEach(field => {
+    const error = validateField(field, values[field.name]);
+    if (error) errors[field.name] = error;
+  });
+  return errors;
+};
+
+/**
+ * Starting values for the form: what was entered last time when it is still
+ * valid, otherwise the first choice (or blank).
+ */
+export const initialFieldValues = (fields: TemplateField[], remembered: FieldValues = {}): FieldValues =>
+  Object.fromEntries(fields.map(field => {
+    const previous = remembered[field.name];
+    if (previous !== undefined && !validateField(field, previous)) return [field.name, previous];
+    return [field.name, field.kind === 'choice' ? field.options[0] : ''];
+  }));
+
+/** Rewrites every `{{field}}` token; the callback gets the field name and the token as written. */
+export const replaceTemplateFields = (text: string, replace: (name: string, token: string) => string): string =>
+  text.replace(FIELD, (token, name: string) => replace(name, token));
+
+/** Replaces every field with its value. Fields without a value are left as written. */
+export const fillTemplateFields = (text: string, values: FieldValues): string =>
+  replaceTemplateFields(text, (name, token) => values[name] !== undefined ? values[name].trim() : token);
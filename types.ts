@@ -5,7 +5,9 @@ export interface ShortcutData {
   k: string; // Key / Trigger
   e: string; // Expansion
   s: LanguageCategory; // Section/Category
-  style?: string; // Font style category
+  language?: string; // Language label as the sheet stores it; `s` is the category it maps to
+  style?: string; // Font style category (comma-separated for mixed content)
+  detectedStyle?: string; // Styles inferred from the expansion; see styleDetector.ts
   d?: string; // Description / Type
   favorite?: boolean;
   tags?: string;
@@ -15,9 +17,109 @@ export interface ShortcutData {
   subcategory?: string;
   platform?: string;
   usageFrequency?: string;
+  options?: string; // Expander options, comma-separated; see expansionOptions.ts
   updatedAt?: string;
 }
 
+// --- Backend Payloads (uiHandlers.gs) ---
+
+/** A shortcut row as serialized by the Apps Script backend. */
+export interface BackendShortcut {
+  id?: string;
+  key?: string;
+  expansion?: string;
+  language?: string;
+  style?: string;
+  fontStyle?: string;
+  description?: string;
+  tags?: string;
+  application?: string;
+  favorite?: boolean;
+  mainCategory?: string;
+  subcategory?: string;
+  platform?: string;
+  usageFrequency?: string;
+  options?: string;
+  updatedAt?: string;
+  position?: number; // Data row index in the sheet; sent with delta rows so id-less rows can be matched
+}
+
+/** Identifies one row; `key` is sent along for backends that predate row ids. */
+export interface ShortcutRef {
+  id: string;
+  key: string;
+}
+
+/** Body sent to upsertShortcut. */
+export interface ShortcutPayload {
+  id?: string;
+  key: string;
+  expansion: string;
+  language?: string;
+  description?: string;
+  tags?: string;
+  application?: string;
+  mainCategory?: string;
+  subcategory?: string;
+  fontStyle?: string;
+  platform?: string;
+  usageFrequency?: string;
+  options?: string;
+}
+
+/** Body sent to renameShortcut; every other field of the row is left untouched. */
+export interface RenamePayload {
+  id: string;
+  oldKey: string;
+  newKey: string;
+}
+
+export interface BulkImportPayload {
+  mode: string;
+  text: string;
+  defaultApplication?: string;
+  defaultLanguage?: string;
+}
+
+/** Handlers answer `{ ok: false, message }` on failure, so callers narrow on `ok`. */
+export type GasResult<T> = ({ ok: true; message?: string } & T) | { ok: false; message?: string };
+
+export type BootstrapResponse = GasResult<{ schemaVersion?: string; total?: number }>;
+
+export type SnapshotPageResponse = GasResult<{
+  snapshotToken?: string;
+  total?: number;
+  shortcuts: BackendShortcut[];
+  hasMore: boolean;
+  offset: number;
+  watermark?: string;
+}>;
+
+export type DeltaResponse = GasResult<{
+  shortcuts: BackendShortcut[];
+  deleted: string[];
+  watermark?: string;
+  hasMore?: boolean;
+  fullResyncRequired?: boolean;
+}>;
+
+export type MutationResponse = GasResult<{ id?: string; removed?: number }>;
+
+export type FavoriteResponse = GasResult<{ favorite?: boolean }>;
+
+export type BulkImportResponse = GasResult<{ inserted: number; updated: number; errors: unknown[] }>;
+
+/** Maintenance, cache and advanced actions report loosely; any of these may be present. */
+export interface ActionResponse {
+  ok?: boolean;
+  success?: boolean;
+  message?: string;
+  removed?: number;
+  cached?: number;
+  count?: number;
+  folderUrl?: string;
+}
+
 // Google Apps Script Global Interface
 export interface GoogleScriptRun {
   withSuccessHandler: (handler: (data: any) => void) => GoogleScriptRun;
@@ -27,11 +129,13 @@ export interface GoogleScriptRun {
   getAppBootstrapData: () => void;
   beginShortcutsSnapshotHandler: () => void;
   fetchShortcutsBatch: (token: string, offset: number, limit: number) => void;
-  upsertShortcut: (payload: any) => void;
-  deleteShortcut: (key: string) => void;
-  toggleFavorite: (snippetName: string) => void; // Assuming exists in favorites.gs
-  handleClipboardFavorite: (key: string) => void;
-  bulkImport: (payload: { mode: string, text: string, defaultApplication?: string, defaultLanguage?: string }) => void;
+  fetchShortcutsDelta: (since: string) => void; // Rows changed or deleted after the watermark
+  upsertShortcut: (payload: ShortcutPayload) => void;
+  renameShortcut: (payload: RenamePayload) => void;
+  deleteShortcut: (target: ShortcutRef) => void;
+  toggleFavorite: (target: ShortcutRef) => void; // Assuming exists in favorites.gs
+  handleClipboardFavorite: (target: ShortcutRef) => void;
+  bulkImport: (payload: BulkImportPayload) => void;
   
   // --- Master Automation Framework ---
   MASTER_openDashboard: () => void;
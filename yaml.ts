@@ -0,0 +1,315 @@
+// --- YAML (SUBSET) ---
+
+/**
+ * Reads and writes the part of YAML that hand-written config files such as
+ * espanso match files use: block mappings and sequences, `- key: value` list
+ * items, `|` / `>` block scalars with chomping, quoted and plain scalars,
+ * simple `[a, b]` / `{a: b}` flow collections and `#` comments. Anchors,
+ * tags and multi-document streams are not supported.
+ */
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+const isSkippable = (line: string) => {
+  const text = line.trim();
+  return !text || text.startsWith('#') || text === '---' || text === '...';
+};
+
+const isSequenceItem = (text: string) => text === '-' || text.startsWith('- ');
+
+/** Drops a trailing ` # comment` that is not inside quotes. */
+const stripComment = (text: string): string => {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      if (i === 0 || /[\s[{,:]/.test(text[i - 1])) quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text;
+};
+
+const DOUBLE_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '0': '\0', '"': '"', '\\': '\\', '/': '/', ' ': ' ', e: '\x1B' };
+
+/** Reads a quoted scalar starting at `start`; returns its value and the index after the closing quote. */
+const readQuoted = (text: string, start: number): { value: string; end: number } => {
+  const quote = text[start];
+  let value = '';
+  for (let i = start + 1; i < text.length; i++) {
+    const ch = text[i];
+    if (quote === "'") {
+      if (ch !== "'") value += ch;
+      else if (text[i + 1] === "'") { value += "'"; i++; }
+      else return { value, end: i + 1 };
+    } else if (ch === '\\') {
+      const next = text[++i];
+      if (next === 'u' || next === 'U' || next === 'x') {
+        const length = next === 'u' ? 4 : next === 'U' ? 8 : 2;
+        value += String.fromCodePoint(parseInt(text.slice(i + 1, i + 1 + length), 16));
+        i += length;
+      } else {
+        value += DOUBLE_ESCAPES[next] ?? next;
+      }
+    } else if (ch === '"') {
+      return { value, end: i + 1 };
+    } else {
+      value += ch;
+    }
+  }
+  throw new Error('Unterminated quoted string');
+};
+
+const plainScalar = (text: string): YamlValue => {
+  if (text === '' || text === '~' || text === 'null' || text === 'Null' || text === 'NULL') return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?\d+(\.\d+)?$/.test(text) && !/^[-+]?0\d/.test(text)) return Number(text);
+  return text;
+};
+
+/** Parses a `[…]`, `{…}`, quoted or plain value inside a flow collection. */
+const readFlow = (text: string, start: number): { value: YamlValue; end: number } => {
+  let i = start;
+  const skipSpace = () => { while (i < text.length && /\s/.test(text[i])) i++; };
+  skipSpace();
+  const ch = text[i];
+
+  if (ch === '"' || ch === "'") {
+    const quoted = readQuoted(text, i);
+    return { value: quoted.value, end: quoted.end };
+  }
+
+  if (ch === '[' || ch === '{') {
+    const close = ch === '[' ? ']' : '}';
+    const list: YamlValue[] = [];
+    const map: { [key: string]: YamlValue } = {};
+    i++;
+    skipSpace();
+    while (text[i] !== close) {
+      if (i >= text.length) throw new Error(`Missing "${close}"`);
+      const item = readFlow(text, i);
+      i = item.end;
+      skipSpace();
+      if (ch === '{') {
+        if (text[i] !== ':') throw new Error('Expected ":" in flow mapping');
+        const entry = readFlow(text, i + 1);
+        map[String(item.value)] = entry.value;
+        i = entry.end;
+        skipSpace();
+      } else {
+        list.push(item.value);
+      }
+      if (text[i] === ',') { i++; skipSpace(); }
+    }
+    return { value: ch === '[' ? list : map, end: i + 1 };
+  }
+
+  // Plain scalars end at a flow indicator, or at ": " inside a mapping
+  let end = i;
+  while (end < text.length && !/[,\]}]/.test(text[end]) && !(text[end] === ':' && /[\s,\]}]|$/.test(text[end + 1] || ''))) end++;
+  return { value: plainScalar(text.slice(i, end).trim()), end };
+};
+
+const parseScalar = (raw: string): YamlValue => {
+  const text = stripComment(raw).trim();
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const { value, end } = readQuoted(text, 0);
+    if (text.slice(end).trim()) throw new Error('Unexpected text after quoted string');
+    return value;
+  }
+  if (text.startsWith('[') || text.startsWith('{')) return readFlow(text, 0).value;
+  return plainScalar(text);
+};
+
+/** Splits `key: rest` (the key may be quoted), or returns null when the text is not a mapping entry. */
+const splitEntry = (text: string): { key: string; rest: string } | null => {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    try {
+      const { value, end } = readQuoted(text, 0);
+      const after = text.slice(end);
+      return /^\s*:(\s|$)/.test(after) ? { key: value, rest: after.replace(/^\s*:/, '') } : null;
+    } catch {
+      return null;
+    }
+  }
+  const match = /^([^#\s[\]{},][^#]*?)\s*:(?:\s+|$)(.*)$/.exec(text);
+  return match ? { key: match[1], rest: match[2] } : null;
+};
+
+export const parseYaml = (source: string): YamlValue => {
+  const lines = source.replace(/^\uFEFF/, '').split(/\r?\n/);
+  if (lines[lines.length - 1] === '') lines.pop(); // The document's final line break ends a line, it does not start one
+  let pos = 0;
+
+  const fail = (message: string): never => { throw new Error(`Line ${pos + 1}: ${message}`); };
+  const skip = () => { while (pos < lines.length && isSkippable(lines[pos])) pos++; };
+
+  const parseNode = (minIndent: number): YamlValue => {
+    skip();
+    if (pos >= lines.length || indentOf(lines[pos]) < minIndent) return null;
+    const indent = indentOf(lines[pos]);
+    return isSequenceItem(lines[pos].trim()) ? parseSequence(indent) : parseMapping(indent);
+  };
+
+  /** `|`, `|-`, `>+`… at the end of a line: collects the more-indented lines that follow. */
+  const parseBlockScalar = (header: string, parentIndent: number): string => {
+    const folded = header[0] === '>';
+    const chomp = header.includes('-') ? 'strip' : header.includes('+') ? 'keep' : 'clip';
+    const explicit = /\d/.exec(header);
+    const body: string[] = [];
+    let blockIndent = explicit ? parentIndent + Number(explicit[0]) : -1;
+
+    while (pos < lines.length) {
+      const line = lines[pos];
+      if (line.trim()) {
+        if (blockIndent < 0) blockIndent = indentOf(line);
+        if (indentOf(line) < blockIndent || blockIndent <= parentIndent) break;
+      }
+      body.push(line.slice(Math.max(blockIndent, 0)));
+      pos++;
+    }
+
+    let trailing = 0;
+    while (body.length > 0 && !body[body.length - 1].trim()) { body.pop(); trailing++; }
+    let text = folded
+      ? body.reduce((out, line, idx) => {
+          if (idx === 0) return line;
+          const prev = body[idx - 1];
+          // A blank line becomes the line break; more-indented lines keep theirs
+          if (!line.trim()) return `${out}\n`;
+          if (!prev.trim()) return out + line;
+          if (/^\s/.test(line) || /^\s/.test(prev)) return `${out}\n${line}`;
+          return `${out} ${line}`;
+        }, '')
+      : body.join('\n');
+    if (body.length > 0 && chomp !== 'strip') text += '\n';
+    if (chomp === 'keep') text += '\n'.repeat(trailing);
+    return text;
+  };
+
+  /** The value after `key:` or `- `; `indent` is the column of the key or dash. */
+  const parseValue = (rest: string, indent: number): YamlValue => {
+    const text = stripComment(rest).trim();
+    if (/^[|>][-+1-9]*$/.test(text)) return parseBlockScalar(text, indent);
+    if (text) {
+      try {
+        return parseScalar(text);
+      } catch (err: any) {
+        return fail(err.message);
+      }
+    }
+    skip();
+    if (pos >= lines.length) return null;
+    const next = indentOf(lines[pos]);
+    // A sequence may sit at the same indentation as its key
+    if (next > indent || (next === indent && isSequenceItem(lines[pos].trim()))) return parseNode(next);
+    return null;
+  };
+
+  const parseSequence = (indent: number): YamlValue[] => {
+    const items: YamlValue[] = [];
+    for (skip(); pos < lines.length; skip()) {
+      const line = lines[pos];
+      const text = line.trim();
+      if (indentOf(line) !== indent || !isSequenceItem(text)) break;
+      const rest = text.slice(1).trimStart();
+      const column = indent + text.length - rest.length;
+      if (rest && (isSequenceItem(rest) || splitEntry(stripComment(rest)))) {
+        // `- key: value` starts a nested node on the same line; re-read it as if it were indented
+        lines[pos] = ' '.repeat(column) + rest;
+        items.push(parseNode(column));
+      } else {
+        pos++;
+        items.push(parseValue(rest, indent));
+      }
+    }
+    return items;
+  };
+
+  const parseMapping = (indent: number): { [key: string]: YamlValue } => {
+    const map: { [key: string]: YamlValue } = {};
+    for (skip(); pos < lines.length; skip()) {
+      const line = lines[pos];
+      if (indentOf(line) < indent) break;
+      if (indentOf(line) > indent) fail('Unexpected indentation');
+      if (isSequenceItem(line.trim())) break;
+      const entry = splitEntry(line.trim());
+      if (!entry) fail('Expected "key: value"');
+      pos++;
+      map[entry!.key] = parseValue(entry!.rest, indent);
+    }
+    return map;
+  };
+
+  const root = parseNode(0);
+  skip();
+  if (pos < lines.length) fail('Unexpected indentation');
+  return root;
+};
+
+// --- WRITING ---
+
+const RESERVED_PLAIN = /^(true|false|null|~|yes|no|on|off)$/i;
+
+/**
+ * Plain when that reads back as the same string, otherwise double-quoted
+ * (JSON escapes are valid YAML). Line breaks, tabs and other control
+ * characters only survive in quotes.
+ */
+const quoteScalar = (text: string): string =>
+  text && /^[^\s\x00-\x1F\x7F\x85\u2028\u2029\-?:,[\]{}#&*!|>'"%@`][^:#\x00-\x1F\x7F\x85\u2028\u2029]*$/.test(text) && !/\s$/.test(text) && !RESERVED_PLAIN.test(text) && plainScalar(text) === text
+    ? text
+    : JSON.stringify(text);
+
+const writeString = (text: string, indent: number): string => {
+  // Block scalars cannot start with spaces or blank lines without an indentation indicator
+  if (!text.includes('\n') || /^\s/.test(text) || /[\r\t]/.test(text)) return quoteScalar(text);
+  const trailing = /\n*$/.exec(text)![0].length;
+  const header = trailing === 0 ? '|-' : trailing === 1 ? '|' : '|+';
+  const body = text.slice(0, text.length - trailing) + '\n'.repeat(Math.max(trailing - 1, 0));
+  const pad = ' '.repeat(indent);
+  return header + '\n' + body.split('\n').map(line => line ? pad + line : '').join('\n');
+};
+
+const isCollection = (value: YamlValue): value is YamlValue[] | { [key: string]: YamlValue } =>
+  value !== null && typeof value === 'object';
+
+const writeNode = (value: YamlValue, indent: number): string => {
+  const pad = ' '.repeat(indent);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return `${pad}[]`;
+    return value.map(item => {
+      if (isCollection(item) && (Array.isArray(item) ? item.length : Object.keys(item).length)) {
+        return `${pad}- ${writeNode(item, indent + 2).trimStart()}`;
+      }
+      return `${pad}- ${writeInline(item, indent + 2)}`;
+    }).join('\n');
+  }
+  if (isCollection(value)) {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    if (entries.length === 0) return `${pad}{}`;
+    return entries.map(([key, v]) => {
+      if (isCollection(v) && (Array.isArray(v) ? v.length : Object.keys(v).length)) {
+        return `${pad}${quoteScalar(key)}:\n${writeNode(v, indent + 2)}`;
+      }
+      return `${pad}${quoteScalar(key)}: ${writeInline(v, indent + 2)}`;
+    }).join('\n');
+  }
+  return pad + writeInline(value, indent);
+};
+
+const writeInline = (value: YamlValue, indent: number): string => {
+  if (value === null) return 'null';
+  if (typeof value === 'string') return writeString(value, indent);
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return Array.isArray(value) ? '[]' : '{}';
+};
+
+/** Block-style YAML that parseYaml (and any other YAML reader) reads back unchanged. */
+export const stringifyYaml = (value: YamlValue): string => writeNode(value, 0) + '\n';